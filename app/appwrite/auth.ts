@@ -1,13 +1,17 @@
 import { ID, OAuthProvider, Query } from "appwrite";
-import { account, databases, appwriteConfig } from "~/appwrite/client";
+import { account, avatars, databases, appwriteConfig } from "~/appwrite/client";
 import { redirect } from "react-router";
 
+// Matches the profile an account signs in to, including accounts linked to another profile.
+const accountQuery = (accountId: string) =>
+  Query.or([Query.equal("accountId", accountId), Query.contains("linkedAccountIds", accountId)]);
+
 export const getExistingUser = async (id: string) => {
   try {
     const { documents, total } = await databases.listDocuments(
       appwriteConfig.databaseId,
       appwriteConfig.usersCollectionId,
-      [Query.equal("accountId", id)]
+      [accountQuery(id)]
     );
     return total > 0 ? documents[0] : null;
   } catch (error) {
@@ -16,33 +20,23 @@ export const getExistingUser = async (id: string) => {
   }
 };
 
+/**
+ * Signs the current Appwrite session in to the server, which creates the user
+ * document on the first sign-in, or links the account to the profile that has
+ * its email. Sends the provider picture along, or a generated initials avatar
+ * for accounts without one.
+ */
 export const storeUserData = async () => {
-  try {
-    const user = await account.get();
-    if (!user) throw new Error("User not found");
-
-    const { providerAccessToken } = (await account.getSession("current")) || {};
-    const profilePicture = providerAccessToken
-      ? await getGooglePicture(providerAccessToken)
-      : null;
+  const user = await account.get();
+  const session = await account.getSession("current");
+  const name = user.name || user.email.split("@")[0];
+  const imageUrl = (await getProviderPicture(session.provider, session.providerAccessToken)) ?? avatars.getInitials(name);
 
-    const createdUser = await databases.createDocument(
-      appwriteConfig.databaseId,
-      appwriteConfig.usersCollectionId,
-      ID.unique(),
-      {
-        accountId: user.$id,
-        email: user.email,
-        name: user.name,
-        imageUrl: profilePicture,
-        joinedAt: new Date().toISOString(),
-      }
-    );
-
-    if (!createdUser.$id) redirect("/sign-in");
-  } catch (error) {
-    console.error("Error storing user data:", error);
-  }
+  return apiFetch("/api/session", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ imageUrl }),
+  });
 };
 
 const getGooglePicture = async (accessToken: string) => {
@@ -61,20 +55,92 @@ const getGooglePicture = async (accessToken: string) => {
   }
 };
 
-export const loginWithGoogle = async () => {
+const getGitHubPicture = async (accessToken: string) => {
+  try {
+    const response = await fetch("https://api.github.com/user", {
+      headers: { Authorization: `Bearer ${accessToken}` },
+    });
+    if (!response.ok) throw new Error("Failed to fetch GitHub profile");
+
+    const { avatar_url } = await response.json();
+    return avatar_url || null;
+  } catch (error) {
+    console.error("Error fetching GitHub picture:", error);
+    return null;
+  }
+};
+
+const getProviderPicture = async (provider: string, accessToken: string): Promise<string | null> => {
+  if (!accessToken) return null;
+
+  switch (provider) {
+    case OAuthProvider.Google:
+      return getGooglePicture(accessToken);
+    case OAuthProvider.Github:
+      return getGitHubPicture(accessToken);
+    default:
+      return null;
+  }
+};
+
+const getCallbackUrl = (redirectTo?: string | null) => {
+  const search = redirectTo ? `?redirectTo=${encodeURIComponent(redirectTo)}` : "";
+  return `${window.location.origin}/auth/callback${search}`;
+};
+
+/**
+ * Starts sign-in with an OAuth provider. Appwrite returns to `/auth/callback`,
+ * which sets the server session and then opens `redirectTo`.
+ */
+export const loginWithOAuth = (provider: OAuthProvider.Google | OAuthProvider.Github, redirectTo?: string | null) => {
   try {
     account.createOAuth2Session(
-      OAuthProvider.Google,
-      `${window.location.origin}/`,
-      `${window.location.origin}/404`
+      provider,
+      getCallbackUrl(redirectTo),
+      `${window.location.origin}/sign-in?error=1`
     );
   } catch (error) {
     console.error("Error during OAuth2 session creation:", error);
   }
 };
 
+// The email flows below throw, so the sign-in form can show Appwrite's message
+// (wrong password, email already registered, ...). On success the caller sends
+// the browser to `/auth/callback` like the OAuth providers do.
+
+// Only confirmed addresses get a profile, so an unconfirmed account is sent a
+// confirmation link, which opens `/auth/verify`, and signed out again.
+const requireVerifiedEmail = async () => {
+  const user = await account.get();
+  if (user.emailVerification) return true;
+
+  await account.createVerification(`${window.location.origin}/auth/verify`);
+  await account.deleteSession("current");
+  return false;
+};
+
+/** Resolves `false` when the email still needs confirming; a confirmation link has been sent. */
+export const loginWithEmail = async (email: string, password: string) => {
+  await account.createEmailPasswordSession(email, password);
+  return requireVerifiedEmail();
+};
+
+/** Resolves `false` once the confirmation link for the new account has been sent. */
+export const signUpWithEmail = async ({ name, email, password }: { name: string; email: string; password: string }) => {
+  await account.create(ID.unique(), email, password, name || undefined);
+  await account.createEmailPasswordSession(email, password);
+  return requireVerifiedEmail();
+};
+
+/** Emails a one-time sign-in link; `/auth/callback` turns it into a session. */
+export const sendMagicLink = async (email: string, redirectTo?: string | null) => {
+  await account.createMagicURLToken(ID.unique(), email, getCallbackUrl(redirectTo));
+};
+
 export const logoutUser = async () => {
   try {
+    cachedJWT = undefined;
+    await fetch("/api/session", { method: "DELETE" });
     await account.deleteSession("current");
   } catch (error) {
     console.error("Error during logout:", error);
@@ -90,7 +156,7 @@ export const getUser = async () => {
       appwriteConfig.databaseId,
       appwriteConfig.usersCollectionId,
       [
-        Query.equal("accountId", user.$id),
+        accountQuery(user.$id),
         Query.select(["name", "email", "imageUrl", "joinedAt", "accountId"]),
       ]
     );
@@ -108,7 +174,7 @@ export const getAllUser = async (limit: number, offset: number) =>{
       appwriteConfig.databaseId,
       appwriteConfig.usersCollectionId,
       [
-       Query.limit(limit), Query.offset(offset)
+       Query.orderDesc("joinedAt"), Query.limit(limit), Query.offset(offset)
       ]
     );
     if(total === 0) return { users: [], total: 0 };
@@ -118,4 +184,68 @@ export const getAllUser = async (limit: number, offset: number) =>{
     console.error("Error fetching all users:", e);
     return { users: [], total: 0 };
   }
-}
\ No newline at end of file
+}
+// Appwrite JWTs last 15 minutes and creating them is rate limited, so one is reused for a while.
+const JWT_REUSE_MS = 10 * 60 * 1000;
+
+let cachedJWT: { jwt: string; expiresAt: number } | undefined;
+
+const getJWT = async (fresh = false) => {
+  if (!fresh && cachedJWT && cachedJWT.expiresAt > Date.now()) return cachedJWT.jwt;
+
+  const { jwt } = await account.createJWT();
+  cachedJWT = { jwt, expiresAt: Date.now() + JWT_REUSE_MS };
+  return jwt;
+};
+
+/**
+ * `fetch` for the app's `/api/*` routes, signed with a JWT for the current
+ * session. A rejected token is replaced once, in case the session changed.
+ */
+export const apiFetch = async (input: string, init: RequestInit = {}) => {
+  const send = async (fresh: boolean) => {
+    const headers = new Headers(init.headers);
+    headers.set("Authorization", `Bearer ${await getJWT(fresh)}`);
+    return fetch(input, { ...init, headers });
+  };
+
+  const response = await send(false);
+  return response.status === 401 ? send(true) : response;
+};
+
+/**
+ * Runs an admin action on a user document through the API, which checks the
+ * caller's role from a short-lived JWT for the current session.
+ */
+export const manageUser = async (userId: string, action: UserAdminAction) => {
+  const response = await apiFetch(`/api/users/${userId}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ action }),
+  });
+  const result: { error?: string } = await response.json();
+
+  if (!response.ok) throw new Error(result.error ?? `Request failed: ${response.status}`);
+  return result;
+};
+
+export const getDuplicateUsers = async () => {
+  const response = await apiFetch("/api/users/duplicates");
+  const result: { groups?: DuplicateUserGroup[]; error?: string } = await response.json();
+
+  if (!response.ok || !result.groups) throw new Error(result.error ?? `Request failed: ${response.status}`);
+  return result.groups;
+};
+
+/** Merges duplicate user documents, with their trips, into `primaryId`. */
+export const mergeUsers = async (primaryId: string, duplicateIds: string[]) => {
+  const response = await apiFetch("/api/users/duplicates", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ primaryId, duplicateIds }),
+  });
+  const result: { movedTrips?: number; error?: string } = await response.json();
+
+  if (!response.ok) throw new Error(result.error ?? `Request failed: ${response.status}`);
+  return result;
+};
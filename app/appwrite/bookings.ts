@@ -0,0 +1,15 @@
+import type { Models } from "appwrite";
+
+export const toBooking = (document: Models.Document): Booking => ({
+    id: document.$id,
+    tripId: document.tripId,
+    userId: document.userId ?? null,
+    status: document.status,
+    seats: document.seats ?? 1,
+    travelerNames: document.travelerNames ?? [],
+    checkoutSessionId: document.checkoutSessionId ?? null,
+    paymentIntentId: document.paymentIntentId ?? null,
+    amountTotal: document.amountTotal ?? 0,
+    currency: document.currency ?? 'usd',
+    createdAt: document.createdAt,
+});
@@ -1,10 +1,12 @@
-import {Account, Client, Databases, Storage} from "appwrite"
+import {Account, Avatars, Client, Databases, Storage} from "appwrite"
 export const appwriteConfig ={
     endpointUrl: import.meta.env.VITE_APPWRITE_API_ENDPOINT,
     projectId: import.meta.env.VITE_APPWRITE_PROJECT_ID,
     databaseId: import.meta.env.VITE_APPWRITE_DATABASE_ID,
     usersCollectionId: import.meta.env.VITE_APPWRITE_USERS_COLLECTION_ID,
     tripsCollectionId: import.meta.env.VITE_APPWRITE_TRIPS_COLLECTION_ID,
+    tripRevisionsCollectionId: import.meta.env.VITE_APPWRITE_TRIP_REVISIONS_COLLECTION_ID,
+    bookingsCollectionId: import.meta.env.VITE_APPWRITE_BOOKINGS_COLLECTION_ID,
 }
 
 const client = new Client()
@@ -17,4 +19,6 @@ const databases = new Databases(client)
 
 const storage = new Storage(client)
 
-export {client, account, databases, storage}
+const avatars = new Avatars(client)
+
+export {client, account, databases, storage, avatars}
@@ -1,162 +1,94 @@
-import { parseTripData } from "~/lib/utils";
-import { databases, appwriteConfig } from "./client";
-
-interface Document {
-    [key: string]: any;
-}
-
-type FilterByDate = (
-    items: Document[],
-    key: string,
-    start: string,
-    end?: string
-) => number;
-
-export const getUsersAndTripsStats = async (): Promise<DashboardStats> => {
-    const d = new Date();
-    const startCurrent = new Date(d.getFullYear(), d.getMonth(), 1).toISOString();
-    const startPrev = new Date(d.getFullYear(), d.getMonth() -1, 1).toISOString();
-    const endPrev = new Date(d.getFullYear(), d.getMonth(), 0).toISOString();
-
-    const [users, trips] = await Promise.all([
-        databases.listDocuments(
-            appwriteConfig.databaseId,
-            appwriteConfig.usersCollectionId
-        ),
-        databases.listDocuments(
-            appwriteConfig.databaseId,
-            appwriteConfig.tripsCollectionId
-        ),
-    ])
-
-    const filterByDate: FilterByDate = (items, key, start, end) => items.filter((item) => (
-        item[key] >= start && (!end || item[key] <= end)
-    )).length;
-
-    const filterUsersByRole = (role: string) => {
-        return users.documents.filter((u: Document) => u.status === role)
-    }
+import { Query } from "appwrite";
+import { travelStyles } from "~/constants";
+import { appwriteConfig } from "./client";
+import { countDocuments, countInRange, dateRangeQueries, startOfDay, startOfMonth, tallyDocuments } from "./stats";
+
+// Longer windows are charted per month to keep the number of bars readable.
+const MAX_DAILY_BUCKETS = 62;
+
+export const getUsersAndTripsStats = async ({ current, previous }: DashboardRange): Promise<DashboardStats> => {
+    const usersOnly = [Query.equal('status', 'user')];
+
+    const [
+        totalUsers, usersCurrent, usersPrevious,
+        totalRegularUsers, regularUsersCurrent, regularUsersPrevious,
+        totalTrips, tripsCurrent, tripsPrevious,
+    ] = await Promise.all([
+        countDocuments(appwriteConfig.usersCollectionId),
+        countInRange(appwriteConfig.usersCollectionId, 'joinedAt', current),
+        countInRange(appwriteConfig.usersCollectionId, 'joinedAt', previous),
+        countDocuments(appwriteConfig.usersCollectionId, usersOnly),
+        countInRange(appwriteConfig.usersCollectionId, 'joinedAt', current, usersOnly),
+        countInRange(appwriteConfig.usersCollectionId, 'joinedAt', previous, usersOnly),
+        countDocuments(appwriteConfig.tripsCollectionId),
+        countInRange(appwriteConfig.tripsCollectionId, 'createdAt', current),
+        countInRange(appwriteConfig.tripsCollectionId, 'createdAt', previous),
+    ]);
 
     return {
-        totalUsers: users.total,
+        totalUsers,
         usersJoined: {
-            currentMonth: filterByDate(
-                users.documents,
-                'joinedAt',
-                startCurrent,
-                undefined
-            ),
-            lastMonth: filterByDate(
-                users.documents,
-                'joinedAt',
-                startPrev,
-                endPrev
-            )
+            current: usersCurrent,
+            previous: usersPrevious,
         },
         userRole: {
-            total: filterUsersByRole('user').length,
-            currentMonth: filterByDate(
-                filterUsersByRole('user'),
-                'joinedAt',
-                startCurrent,
-                undefined
-            ),
-            lastMonth: filterByDate(
-                filterUsersByRole('user'),
-                'joinedAt',
-                startPrev,
-                endPrev
-            )
+            total: totalRegularUsers,
+            current: regularUsersCurrent,
+            previous: regularUsersPrevious,
         },
-        totalTrips: trips.total,
+        totalTrips,
         tripsCreated: {
-            currentMonth: filterByDate(
-                trips.documents,
-                'createdAt',
-                startCurrent,
-                undefined
-            ),
-            lastMonth: filterByDate(
-                filterUsersByRole('user'),
-                'joinedAt',
-                startPrev,
-                endPrev
-            )
+            current: tripsCurrent,
+            previous: tripsPrevious,
         },
     }
 }
 
-export const getUserGrowthPerDay = async () => {
-    const users = await databases.listDocuments(
-        appwriteConfig.databaseId,
-        appwriteConfig.usersCollectionId
-    );
-
-    const userGrowth = users.documents.reduce(
-        (acc: { [key: string]: number }, user: Document) => {
-            const date = new Date(user.joinedAt);
-            const day = date.toLocaleDateString("en-US", {
-                month: "short",
-                day: "numeric",
-            });
-            acc[day] = (acc[day] || 0) + 1;
-            return acc;
-        },
-        {}
+// One entry per day (or month) of the window, including periods without activity.
+const getCountsOverTime = async (collectionId: string, key: string, range: DashboardRange) => {
+    const monthly = range.days > MAX_DAILY_BUCKETS;
+    const bucketOf = (value: string) => {
+        const date = new Date(value);
+        return monthly ? startOfMonth(date) : startOfDay(date);
+    };
+
+    const counts = await tallyDocuments(
+        collectionId,
+        [key],
+        (document) => document[key] ? bucketOf(document[key]) : null,
+        dateRangeQueries(key, range.current)
     );
 
-    return Object.entries(userGrowth).map(([day, count]) => ({
-        count: Number(count),
-        day,
-    }));
-};
-
-export const getTripsCreatedPerDay = async () => {
-    const trips = await databases.listDocuments(
-        appwriteConfig.databaseId,
-        appwriteConfig.tripsCollectionId
-    );
-
-    const tripsGrowth = trips.documents.reduce(
-        (acc: { [key: string]: number }, trip: Document) => {
-            const date = new Date(trip.createdAt);
-            const day = date.toLocaleDateString("en-US", {
-                month: "short",
-                day: "numeric",
-            });
-            acc[day] = (acc[day] || 0) + 1;
-            return acc;
-        },
-        {}
-    );
+    const buckets: string[] = [];
+    const end = new Date(range.current.end);
+    const start = new Date(range.current.start);
+    for (let date = monthly ? new Date(startOfMonth(start)) : start; date < end; ) {
+        buckets.push(date.toISOString());
+        date = new Date(monthly ? startOfMonth(date, 1) : startOfDay(date, 1));
+    }
 
-    return Object.entries(tripsGrowth).map(([day, count]) => ({
-        count: Number(count),
-        day,
+    return buckets.map((bucket) => ({
+        count: counts.get(bucket) ?? 0,
+        day: new Date(bucket).toLocaleDateString("en-US", monthly
+            ? { month: "short", year: "numeric" }
+            : { month: "short", day: "numeric" }),
     }));
-};
+}
 
-export const getTripsByTravelStyle = async () => {
-    const trips = await databases.listDocuments(
-        appwriteConfig.databaseId,
-        appwriteConfig.tripsCollectionId
-    );
+export const getUserGrowthPerDay = (range: DashboardRange) =>
+    getCountsOverTime(appwriteConfig.usersCollectionId, 'joinedAt', range);
 
-    const travelStyleCounts = trips.documents.reduce(
-        (acc: { [key: string]: number }, trip: Document) => {
-            const tripDetail = parseTripData(trip.tripDetails);
+export const getTripsCreatedPerDay = (range: DashboardRange) =>
+    getCountsOverTime(appwriteConfig.tripsCollectionId, 'createdAt', range);
 
-            if (tripDetail && tripDetail.travelStyle) {
-                const travelStyle = tripDetail.travelStyle;
-                acc[travelStyle] = (acc[travelStyle] || 0) + 1;
-            }
-            return acc;
-        },
-        {}
-    );
+export const getTripsByTravelStyle = async (range: DashboardRange) => {
+    // One count query per style on the top-level travelStyle attribute.
+    const counts = await Promise.all(travelStyles.map((travelStyle) =>
+        countInRange(appwriteConfig.tripsCollectionId, 'createdAt', range.current, [Query.equal('travelStyle', travelStyle)])
+    ));
 
-    return Object.entries(travelStyleCounts).map(([travelStyle, count]) => ({
-        count: Number(count),
+    return travelStyles.map((travelStyle, i) => ({
+        count: counts[i],
         travelStyle,
     }));
-};
\ No newline at end of file
+};
@@ -0,0 +1,118 @@
+import { Account, Client, Databases, Storage, Users, type Models } from "node-appwrite";
+import type { TripAttributes } from "~/lib/trip-attributes";
+
+// The `.server` suffix keeps this module, and the API key it holds, out of browser bundles.
+
+const REQUIRED_ENV = {
+    endpointUrl: 'APPWRITE_API_ENDPOINT',
+    projectId: 'APPWRITE_PROJECT_ID',
+    apiKey: 'APPWRITE_API_KEY',
+    databaseId: 'APPWRITE_DATABASE_ID',
+    usersCollectionId: 'APPWRITE_USERS_COLLECTION_ID',
+    tripsCollectionId: 'APPWRITE_TRIPS_COLLECTION_ID',
+    tripRevisionsCollectionId: 'APPWRITE_TRIP_REVISIONS_COLLECTION_ID',
+    bookingsCollectionId: 'APPWRITE_BOOKINGS_COLLECTION_ID',
+} as const;
+
+export type ServerConfig = Record<keyof typeof REQUIRED_ENV, string>;
+
+export class AppwriteConfigError extends Error {
+    missing: string[];
+
+    constructor(missing: string[]) {
+        super(`Missing Appwrite server configuration: ${missing.join(', ')}. Set them in the server environment (see .env.example).`);
+        this.name = 'AppwriteConfigError';
+        this.missing = missing;
+    }
+}
+
+const readServerConfig = (): ServerConfig => {
+    const missing = Object.values(REQUIRED_ENV).filter((key) => !process.env[key]?.trim());
+    if (missing.length > 0) throw new AppwriteConfigError(missing);
+
+    return Object.fromEntries(
+        Object.entries(REQUIRED_ENV).map(([name, key]) => [name, process.env[key]!.trim()])
+    ) as ServerConfig;
+}
+
+/** Read once on import, so a misconfigured server fails at startup instead of on the first query. */
+export const serverConfig = readServerConfig();
+
+// Authenticated with the API key, so it is not limited by collection permissions.
+const serverClient = new Client()
+    .setEndpoint(serverConfig.endpointUrl)
+    .setProject(serverConfig.projectId)
+    .setKey(serverConfig.apiKey);
+
+export const serverDatabases = new Databases(serverClient);
+export const serverStorage = new Storage(serverClient);
+export const serverUsers = new Users(serverClient);
+
+/** An account client acting as the caller, so `get()` only succeeds for a valid, unexpired JWT. */
+export const getJWTAccount = (jwt: string) => new Account(
+    new Client()
+        .setEndpoint(serverConfig.endpointUrl)
+        .setProject(serverConfig.projectId)
+        .setJWT(jwt)
+);
+
+export type UserDocument = Models.Document & {
+    accountId: string;
+    name: string;
+    email: string;
+    imageUrl: string | null;
+    joinedAt: string;
+    status: UserData['status'];
+    suspended?: boolean;
+    itineraryCount?: number;
+    /** Other Appwrite accounts, with the same verified email, that sign in to this profile. */
+    linkedAccountIds?: string[];
+};
+
+/** Trips not migrated yet only have the legacy `tripDetails` JSON, so the attributes are optional. */
+export type TripDocument = Models.Document & Partial<Omit<TripAttributes, 'tripDetails'>> & {
+    userId: string;
+    createdAt: string;
+    imageUrls: string[];
+    tripDetails?: string | null;
+    payment_link?: string | null;
+    capacity?: number | null;
+};
+
+export type TripRevisionDocument = Models.Document & {
+    tripId: string;
+    tripDetails: string;
+    source: RevisionSource;
+    summary: string;
+    authorId: string;
+    authorName: string | null;
+    createdAt: string;
+};
+
+export type BookingDocument = Models.Document & Omit<Booking, 'id' | 'checkoutSessionId' | 'paymentIntentId' | 'amountTotal' | 'currency'>
+    & Partial<Pick<Booking, 'checkoutSessionId' | 'paymentIntentId' | 'amountTotal' | 'currency'>>;
+
+type DocumentData<T extends Models.Document> = Omit<T, keyof Models.Document>;
+
+const collection = <T extends Models.Document>(collectionId: string) => ({
+    id: collectionId,
+    list: (queries?: string[]) =>
+        serverDatabases.listDocuments<T>(serverConfig.databaseId, collectionId, queries),
+    get: (documentId: string, queries?: string[]) =>
+        serverDatabases.getDocument<T>(serverConfig.databaseId, collectionId, documentId, queries),
+    // node-appwrite types `data` with a conditional type that a generic `T` can't satisfy.
+    create: (documentId: string, data: DocumentData<T>, permissions?: string[]) =>
+        serverDatabases.createDocument<T>(serverConfig.databaseId, collectionId, documentId, data as never, permissions),
+    update: (documentId: string, data: Partial<DocumentData<T>>) =>
+        serverDatabases.updateDocument<T>(serverConfig.databaseId, collectionId, documentId, data as never),
+    delete: (documentId: string) =>
+        serverDatabases.deleteDocument(serverConfig.databaseId, collectionId, documentId),
+});
+
+/** Typed access to each collection of the app's database. Add new collections here. */
+export const collections = {
+    users: collection<UserDocument>(serverConfig.usersCollectionId),
+    trips: collection<TripDocument>(serverConfig.tripsCollectionId),
+    tripRevisions: collection<TripRevisionDocument>(serverConfig.tripRevisionsCollectionId),
+    bookings: collection<BookingDocument>(serverConfig.bookingsCollectionId),
+};
@@ -0,0 +1,84 @@
+import { Query, type Models } from "appwrite";
+import { databases, appwriteConfig } from "./client";
+
+const SCAN_PAGE_SIZE = 100;
+
+// Appwrite stops counting matches at 5,000 unless the server is configured otherwise.
+const COUNT_LIMIT = Number(import.meta.env.VITE_APPWRITE_COUNT_LIMIT) || 5000;
+
+/**
+ * Counts matching documents without downloading them: Appwrite reports the
+ * `total` for a query even when only one document is returned. A total at
+ * Appwrite's count limit may be capped, so those are counted page by page.
+ */
+export const countDocuments = async (collectionId: string, queries: string[] = []) => {
+    const { total } = await databases.listDocuments(
+        appwriteConfig.databaseId,
+        collectionId,
+        [...queries, Query.limit(1)]
+    );
+    if (total < COUNT_LIMIT) return total;
+
+    let count = 0;
+    for await (const _ of scanDocuments(collectionId, [], queries)) count++;
+    return count;
+}
+
+/** Ranges include `start` and exclude `end`. */
+export const dateRangeQueries = (key: string, { start, end }: DateRange) => [
+    Query.greaterThanEqual(key, start),
+    ...(end ? [Query.lessThan(key, end)] : []),
+]
+
+export const countInRange = (collectionId: string, key: string, range: DateRange, queries: string[] = []) =>
+    countDocuments(collectionId, [...queries, ...dateRangeQueries(key, range)]);
+
+/**
+ * Walks every matching document page by page with cursor pagination, fetching
+ * only the `select`ed attributes. Use for aggregations that counts can't express.
+ */
+export async function* scanDocuments(collectionId: string, select: string[], queries: string[] = []) {
+    let cursor: string | undefined;
+
+    while (true) {
+        const { documents }: Models.DocumentList<Models.Document> = await databases.listDocuments(
+            appwriteConfig.databaseId,
+            collectionId,
+            [
+                ...queries,
+                Query.select(['$id', ...select]),
+                Query.orderAsc('$id'),
+                Query.limit(SCAN_PAGE_SIZE),
+                ...(cursor ? [Query.cursorAfter(cursor)] : []),
+            ]
+        );
+
+        yield* documents;
+
+        if (documents.length < SCAN_PAGE_SIZE) return;
+        cursor = documents[documents.length - 1].$id;
+    }
+}
+
+/** Tallies scanned documents by the key returned from `keyOf`, skipping empty keys. */
+export const tallyDocuments = async (
+    collectionId: string,
+    select: string[],
+    keyOf: (document: Models.Document) => string | null | undefined,
+    queries: string[] = []
+) => {
+    const counts = new Map<string, number>();
+
+    for await (const document of scanDocuments(collectionId, select, queries)) {
+        const key = keyOf(document);
+        if (key) counts.set(key, (counts.get(key) ?? 0) + 1);
+    }
+
+    return counts;
+}
+
+export const startOfMonth = (date: Date, monthOffset = 0) =>
+    new Date(date.getFullYear(), date.getMonth() + monthOffset, 1).toISOString();
+
+export const startOfDay = (date: Date, dayOffset = 0) =>
+    new Date(date.getFullYear(), date.getMonth(), date.getDate() + dayOffset).toISOString();
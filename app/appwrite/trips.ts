@@ -1,11 +1,34 @@
-import { Query } from "appwrite";
+import { Query, type Models } from "appwrite";
 import { appwriteConfig, databases } from "./client"
+import { countDocuments } from "./stats";
 
-export const getAllTrips = async(limit:number, offset:number) =>{
+// Filters run against the top-level attributes written by `toTripAttributes`.
+const toTripQueries = ({
+    search, userId, travelStyle, interest, budget, groupType, minDays, maxDays, sort = 'createdAt', order = 'desc'
+}: TripFilters) => {
+    const queries: string[] = [];
+    const term = search?.trim();
+
+    if (term) queries.push(Query.or([Query.search('name', term), Query.search('country', term)]));
+    if (userId) queries.push(Query.equal('userId', userId));
+    if (travelStyle) queries.push(Query.equal('travelStyle', travelStyle));
+    if (interest) queries.push(Query.equal('interests', interest));
+    if (budget) queries.push(Query.equal('budget', budget));
+    if (groupType) queries.push(Query.equal('groupType', groupType));
+    if (minDays) queries.push(Query.greaterThanEqual('duration', minDays));
+    if (maxDays) queries.push(Query.lessThanEqual('duration', maxDays));
+
+    const sortKey = sort === 'price' ? 'priceAmount' : '$createdAt';
+    queries.push(order === 'asc' ? Query.orderAsc(sortKey) : Query.orderDesc(sortKey));
+    if (sortKey !== '$createdAt') queries.push(Query.orderDesc('$createdAt'));
+    return queries;
+}
+
+export const getAllTrips = async(limit:number, offset:number, filters: TripFilters = {}) =>{
     const allTrips = await databases.listDocuments(
         appwriteConfig.databaseId,
         appwriteConfig.tripsCollectionId,
-        [Query.limit(limit), Query.offset(offset), Query.orderDesc('$createdAt')]
+        [...toTripQueries(filters), Query.limit(limit), Query.offset(offset)]
     );
     if(allTrips.total === 0){
         console.log('No trips found');
@@ -28,4 +51,13 @@ export const getTripById = async (tripId: string) => {
         return null;
     }
     return trip;
-}
\ No newline at end of file
+}
+
+/**
+ * A user's trip count: the `itineraryCount` kept on their user document, or a
+ * count query for documents created before the counter existed.
+ */
+export const getItineraryCount = async (user: Models.Document) => {
+    if (typeof user.itineraryCount === 'number') return user.itineraryCount;
+    return countDocuments(appwriteConfig.tripsCollectionId, [Query.equal('userId', user.accountId)]);
+}
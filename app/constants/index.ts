@@ -105,8 +105,6 @@ export const comboBoxItems = {
 export const userXAxis: AxisModel = { valueType: "Category", title: "Day" };
 export const userYAxis: AxisModel = {
   minimum: 0,
-  maximum: 10,
-  interval: 2,
   title: "Count",
 };
 
@@ -118,8 +116,6 @@ export const tripXAxis: AxisModel = {
 
 export const tripYAxis: AxisModel = {
   minimum: 0,
-  maximum: 10,
-  interval: 2,
   title: "Count",
 };
 
@@ -203,7 +199,7 @@ export const users = [
       email: "john.doe@example.com",
       imageUrl: "/assets/images/david.webp",
       dateJoined: formatDate("2025-01-01"),
-      itineraryCreated: 10,
+      itineraryCount: 10,
       status: "user",
     },
     {
@@ -212,7 +208,7 @@ export const users = [
       email: "jane.smith@example.com",
       imageUrl: "/assets/images/david.webp",
       dateJoined: formatDate("2025-01-02"),
-      itineraryCreated: 4,
+      itineraryCount: 4,
       status: "user",
     },
     {
@@ -221,7 +217,7 @@ export const users = [
       email: "john.smith@example.com",
       imageUrl: "/assets/images/david.webp",
       dateJoined: formatDate("2025-01-03"),
-      itineraryCreated: 8,
+      itineraryCount: 8,
       status: "admin",
     },
   ];
@@ -6,6 +6,8 @@ import { ServerRouter } from "react-router";
 import { isbot } from "isbot";
 import type { RenderToPipeableStreamOptions } from "react-dom/server";
 import { renderToPipeableStream } from "react-dom/server";
+// Validates the Appwrite server configuration as soon as the server starts.
+import "~/appwrite/server.server";
 
 export const streamTimeout = 5_000;
 
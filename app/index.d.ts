@@ -7,12 +7,44 @@ declare interface BaseUser {
 }
 
 declare interface UserData extends BaseUser {
-  itineraryCreated: number | string;
+  itineraryCount?: number;
   status: "user" | "admin";
+  suspended?: boolean;
 }
 
 declare type User = BaseUser;
 
+declare type UserSortField = "name" | "joinedAt" | "itineraryCount";
+
+declare interface UserListOptions {
+  search?: string;
+  status?: "user" | "admin" | "suspended";
+  /** ISO bounds, `joinedTo` exclusive. */
+  joinedFrom?: string;
+  joinedTo?: string;
+  sort?: UserSortField;
+  order?: "asc" | "desc";
+}
+
+declare type UserAdminAction = "promote" | "demote" | "suspend" | "reactivate" | "delete";
+
+declare interface DuplicateUser {
+  $id: string;
+  accountId: string;
+  name: string;
+  email: string;
+  imageUrl: string | null;
+  joinedAt: string;
+  status: "user" | "admin";
+  suspended?: boolean;
+  itineraryCount?: number;
+}
+
+/** User documents sharing an account id or email, oldest first. */
+declare interface DuplicateUserGroup {
+  users: DuplicateUser[];
+}
+
 declare interface Country {
   name: string;
   coordinates: [number, number];
@@ -38,28 +70,58 @@ declare interface PillProps {
   textColor?: string;
 }
 
+declare type CostCategory = "lodging" | "transport" | "food" | "activities";
+
+/** An estimate in whole units of the trip's price currency. */
+declare interface CostEstimate {
+  category: CostCategory;
+  amount: number;
+}
+
 declare interface Activity {
   time: string;
   description: string;
+  cost?: CostEstimate;
+  /** Latitude and longitude of where the activity takes place. */
+  coordinates?: [number, number];
 }
 
 declare interface DayPlan {
   day: number;
   location: string;
   activities: Activity[];
+  /** Costs of the day not tied to one activity, such as lodging and transfers. */
+  costs?: CostEstimate[];
+  /** Latitude and longitude of the day's location. */
+  coordinates?: [number, number];
 }
 
-declare interface Location {
+declare interface TripLocation {
   city: string;
   coordinates: [number, number];
   openStreetMap: string;
 }
 
+/** An amount in the currency's minor unit (cents for USD) with its ISO 4217 code. */
+declare interface Money {
+  amount: number;
+  currency: string;
+}
+
+/** `rates[code]` is the price of one unit of `base` in `code`. */
+declare interface ExchangeRates {
+  base: string;
+  rates: Record<string, number>;
+  date: string;
+}
+
 declare interface Trip {
   id: string;
   name: string;
   description: string;
   estimatedPrice: string;
+  /** `estimatedPrice` parsed at generation time. */
+  price?: Money;
   duration: number;
   budget: string;
   travelStyle: string;
@@ -70,24 +132,163 @@ declare interface Trip {
   itinerary: DayPlan[];
   bestTimeToVisit: string[];
   weatherInfo: string[];
-  location: Location;
+  location: TripLocation;
   payment_link: string;
 }
 
+declare type GeneratedTrip = Omit<Trip, "id" | "imageUrls" | "payment_link">;
+
+declare type TripSortField = "createdAt" | "price";
+
+declare interface TripFilters {
+  search?: string;
+  /** Account id of the user who created the trips. */
+  userId?: string;
+  travelStyle?: string;
+  interest?: string;
+  budget?: string;
+  groupType?: string;
+  minDays?: number;
+  maxDays?: number;
+  sort?: TripSortField;
+  order?: "asc" | "desc";
+}
+
+declare interface TripGenerationInput {
+  country: string;
+  numberOfDays: number;
+  travelStyle: string;
+  interests: string;
+  budget: string;
+  groupType: string;
+}
+
+declare interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+declare type TripProgressStage =
+  | "drafting"
+  | "repairing"
+  | "geocoding"
+  | "fetching-images"
+  | "saving";
+
+declare type TripProgressEvent =
+  | { type: "progress"; stage: TripProgressStage; message: string }
+  | { type: "day"; day: DayPlan; total: number }
+  | { type: "done"; id: string }
+  | { type: "error"; error: string; issues?: ValidationIssue[] };
+
+declare type JobStatus =
+  | "queued"
+  | "running"
+  | "failed"
+  | "succeeded"
+  | "cancelled";
+
+declare interface JobRecord<TPayload = unknown, TResult = unknown, TProgress = unknown> {
+  id: string;
+  type: string;
+  status: JobStatus;
+  payload: TPayload;
+  result?: TResult;
+  progress?: TProgress;
+  error?: string;
+  issues?: ValidationIssue[];
+  attempts: number;
+  maxAttempts: number;
+  createdAt: string;
+  updatedAt: string;
+  runAfter: string;
+}
+
+declare interface TripJobProgress {
+  message: string;
+  itinerary: DayPlan[];
+}
+
+declare interface TripJobStatusResponse {
+  id: string;
+  status: JobStatus;
+  tripId?: string;
+  progress?: TripJobProgress;
+  error?: string;
+  issues?: ValidationIssue[];
+  attempts: number;
+  maxAttempts: number;
+}
+
+declare type RevisionSource = "ai" | "manual";
+
+declare interface RevisionAuthor {
+  id: string;
+  name?: string;
+}
+
+declare interface TripRevision {
+  id: string;
+  tripId: string;
+  tripDetails: string;
+  source: RevisionSource;
+  summary: string;
+  authorId: string;
+  authorName: string | null;
+  createdAt: string;
+}
+
+declare type ListChange = { type: "same" | "added" | "removed"; value: string };
+
+declare interface FieldChange {
+  field: string;
+  before: string;
+  after: string;
+}
+
+declare interface DayDiff {
+  day: number;
+  status: "added" | "removed" | "changed" | "unchanged";
+  location?: { before?: string; after?: string };
+  activities: ListChange[];
+}
+
+declare interface TripDiff {
+  fields: FieldChange[];
+  days: DayDiff[];
+}
+
+declare type BookingStatus = "pending" | "paid" | "cancelled" | "refunded";
+
+declare interface Booking {
+  id: string;
+  tripId: string;
+  userId: string | null;
+  status: BookingStatus;
+  seats: number;
+  travelerNames: string[];
+  checkoutSessionId: string | null;
+  paymentIntentId: string | null;
+  amountTotal: number;
+  currency: string;
+  createdAt: string;
+}
+
 declare interface TripCardProps {
   id: string;
   name: string;
   location: string;
   imageUrl: string;
   tags: string[];
-  price: string;
+  price?: Money;
 }
 
 declare interface StatsCard {
   headerTitle: string;
   total: number;
-  lastMonthCount: number;
-  currentMonthCount: number;
+  previousCount: number;
+  currentCount: number;
+  comparisonLabel: string;
 }
 
 declare interface TrendResult {
@@ -95,33 +296,57 @@ declare interface TrendResult {
   percentage: number;
 }
 
+declare type RangePreset = "7d" | "30d" | "quarter" | "ytd" | "custom";
+
+declare type ComparisonMode = "previous" | "year";
+
+declare interface DateRange {
+  start: string;
+  end?: string;
+}
+
+declare interface DashboardRange {
+  preset: RangePreset;
+  comparison: ComparisonMode;
+  days: number;
+  current: Required<DateRange>;
+  previous: Required<DateRange>;
+  /** Inclusive `YYYY-MM-DD` bounds of the current window. */
+  from: string;
+  to: string;
+}
+
 declare interface DashboardStats {
   totalUsers: number;
   usersJoined: {
-    currentMonth: number;
-    lastMonth: number;
+    current: number;
+    previous: number;
   };
   userRole: {
     total: number;
-    currentMonth: number;
-    lastMonth: number;
+    current: number;
+    previous: number;
   };
   totalTrips: number;
   tripsCreated: {
-    currentMonth: number;
-    lastMonth: number;
+    current: number;
+    previous: number;
   };
 }
 
 declare interface CreateTripResponse {
   id?: string;
+  jobId?: string;
+  error?: string;
+  issues?: ValidationIssue[];
 }
 
 declare interface DestinationProps {
+  id: string;
   containerClass?: string;
   bigCard?: boolean;
   activityCount: number;
-  rating: number;
+  price?: Money;
   bgImage: string;
   title: string;
 }
@@ -132,6 +357,7 @@ type GetAllTripsResponse = {
 };
 
 declare interface UsersItineraryCount {
+  accountId: string;
   imageUrl: string;
   name: string;
   count: number;
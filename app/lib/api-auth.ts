@@ -0,0 +1,76 @@
+import { data } from "react-router";
+import { getJWTAccount, type UserDocument } from "~/appwrite/server.server";
+import { getSessionAccountId, getUserByAccountId } from "~/lib/session";
+
+export class AuthorizationError extends Error {
+    status: number;
+
+    constructor(message: string, status = 401) {
+        super(message);
+        this.name = 'AuthorizationError';
+        this.status = status;
+    }
+}
+
+export interface ApiCaller {
+    /** The profile's own account, which owns its trips even when a linked account signed in. */
+    accountId: string;
+    user: UserDocument;
+}
+
+const getAccount = async (jwt: string) => {
+    try {
+        return await getJWTAccount(jwt).get();
+    } catch {
+        throw new AuthorizationError('Invalid or expired session token');
+    }
+}
+
+const getBearerToken = (request: Request) => request.headers.get('Authorization')?.match(/^Bearer (.+)$/)?.[1];
+
+/** The Appwrite account proven by the request's JWT, whether or not it has a user document yet. */
+export const authenticateAccount = async (request: Request) => {
+    const jwt = getBearerToken(request);
+    if (!jwt) throw new AuthorizationError('Missing session token');
+    return getAccount(jwt);
+}
+
+/**
+ * Resolves the caller from the Appwrite JWT in the `Authorization: Bearer` header,
+ * or else from the session cookie, and requires an active user document, or an
+ * admin one with `admin`.
+ */
+export const authenticateRequest = async (request: Request, { admin = false }: { admin?: boolean } = {}): Promise<ApiCaller> => {
+    const jwt = getBearerToken(request);
+    const account = jwt ? await getAccount(jwt) : null;
+    const accountId = account?.$id ?? await getSessionAccountId(request);
+    if (!accountId) throw new AuthorizationError('Missing session token');
+
+    const user = await getUserByAccountId(accountId);
+    if (!user || user.suspended) throw new AuthorizationError('Your account cannot use this endpoint', 403);
+    if (admin && user.status !== 'admin') throw new AuthorizationError('Only admins can use this endpoint', 403);
+
+    return { accountId: user.accountId, user };
+}
+
+/**
+ * Guards an `/api/*` loader or action: the handler only runs for an
+ * authenticated caller, and gets it as its second argument. Other requests
+ * are answered with 401 or 403. Every `/api/*` route uses it except the Stripe
+ * webhook, which checks Stripe's signature, `/api/session`, which signs the
+ * caller in, and `/api/currency`, a display preference visitors set too.
+ */
+export const withApiAuth = <Args extends { request: Request }, Result>(
+    handler: (args: Args, caller: ApiCaller) => Promise<Result>,
+    { admin = false }: { admin?: boolean } = {}
+) => async (args: Args) => {
+    let caller: ApiCaller;
+    try {
+        caller = await authenticateRequest(args.request, { admin });
+    } catch (e) {
+        if (e instanceof AuthorizationError) return data({ error: e.message }, { status: e.status });
+        throw e;
+    }
+
+    return handler(args, caller);
+}
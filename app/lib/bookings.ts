@@ -0,0 +1,217 @@
+import { ID, Query } from "node-appwrite";
+import type Stripe from "stripe";
+import { collections } from "~/appwrite/server.server";
+import { toBooking } from "~/appwrite/bookings";
+import { getStripe } from "~/lib/stripe";
+import { convertPrice } from "~/lib/exchange-rates";
+import { getTripPrice, toGeneratedTrip } from "~/lib/trip-attributes";
+
+export const getTripBookings = async (tripId: string) => {
+    try {
+        const { documents } = await collections.bookings.list(
+            [Query.equal('tripId', tripId), Query.orderDesc('createdAt'), Query.limit(100)]
+        );
+        return documents.map(toBooking);
+    } catch (e) {
+        console.error('Error fetching bookings:', e);
+        return [];
+    }
+}
+
+/** Bookings in these states hold their seats. */
+export const SEAT_HOLDING_STATUSES: BookingStatus[] = ['pending', 'paid'];
+
+export class BookingError extends Error {
+    status: number;
+
+    constructor(message: string, status = 400) {
+        super(message);
+        this.name = 'BookingError';
+        this.status = status;
+    }
+}
+
+const findBooking = async (queries: string[]) => {
+    const { documents } = await collections.bookings.list([...queries, Query.limit(1)]);
+    return documents[0] ? toBooking(documents[0]) : null;
+}
+
+const updateBooking = async (id: string, patch: Partial<Omit<Booking, 'id'>>) => {
+    return toBooking(await collections.bookings.update(id, patch));
+}
+
+export const getBookingBySession = (sessionId: string) =>
+    findBooking([Query.equal('checkoutSessionId', sessionId)]);
+
+export const getSeatsTaken = async (tripId: string) => {
+    const { documents } = await collections.bookings.list(
+        [Query.equal('tripId', tripId), Query.equal('status', SEAT_HOLDING_STATUSES), Query.limit(500)]
+    );
+    return documents.reduce((total, document) => total + (document.seats ?? 1), 0);
+}
+
+interface BookingRequest {
+    tripId: string;
+    userId: string;
+    travelerNames: string[];
+    /** Charge currency; defaults to the trip's own. */
+    currency?: string;
+    successUrl: string;
+    cancelUrl: string;
+}
+
+/**
+ * Holds seats with a pending booking and opens a Stripe Checkout session for
+ * them. The booking becomes paid (or cancelled) from the checkout webhooks.
+ */
+export const createBookingCheckout = async ({ tripId, userId, travelerNames, currency, successUrl, cancelUrl }: BookingRequest) => {
+    const seats = travelerNames.length;
+    if (seats === 0) throw new BookingError('At least one traveler is required');
+
+    const trip = await collections.trips.get(tripId);
+    const tripDetails = toGeneratedTrip(trip);
+    const tripPrice = tripDetails && getTripPrice(tripDetails);
+    if (!tripDetails || !tripPrice) throw new BookingError('This trip cannot be booked yet', 422);
+
+    const price = await convertPrice(tripPrice, currency ?? tripPrice.currency);
+    if (!price) throw new BookingError(`Payments in ${currency} are not available right now`, 422);
+
+    if (typeof trip.capacity === 'number') {
+        const available = trip.capacity - await getSeatsTaken(tripId);
+        if (seats > available) {
+            throw new BookingError(available > 0 ? `Only ${available} seats left` : 'This trip is fully booked', 409);
+        }
+    }
+
+    const booking = await collections.bookings.create(ID.unique(), {
+        tripId,
+        userId,
+        status: 'pending',
+        seats,
+        travelerNames,
+        createdAt: new Date().toISOString(),
+    });
+
+    try {
+        const session = await getStripe().checkout.sessions.create({
+            mode: 'payment',
+            line_items: [{
+                quantity: seats,
+                price_data: {
+                    currency: price.currency.toLowerCase(),
+                    unit_amount: price.amount,
+                    product_data: { name: tripDetails.name, description: tripDetails.description },
+                },
+            }],
+            client_reference_id: userId,
+            metadata: { tripId, bookingId: booking.$id },
+            success_url: successUrl,
+            cancel_url: cancelUrl,
+        });
+
+        await updateBooking(booking.$id, { checkoutSessionId: session.id });
+        return { bookingId: booking.$id, url: session.url };
+    } catch (e) {
+        await updateBooking(booking.$id, { status: 'cancelled' });
+        throw e;
+    }
+}
+
+// Payment links skip the seat check of `createBookingCheckout`, so a payment that
+// arrives for a full trip is refunded rather than overselling it.
+const refundIfOverCapacity = async (tripId: string, session: Stripe.Checkout.Session, paymentIntentId: string | null) => {
+    const trip = await collections.trips.get(tripId);
+    if (typeof trip.capacity !== 'number' || await getSeatsTaken(tripId) < trip.capacity) return false;
+
+    if (!paymentIntentId) {
+        console.error(`Checkout session ${session.id} overbooks trip ${tripId} and has no payment to refund`);
+        return false;
+    }
+    await getStripe().refunds.create({ payment_intent: paymentIntentId }, { idempotencyKey: `over-capacity-${session.id}` });
+    console.log(`Refunded checkout session ${session.id}: trip ${tripId} is fully booked`);
+    return true;
+}
+
+/**
+ * Marks the booking behind a paid checkout session as paid. Sessions from a plain
+ * payment link have no booking yet, so one is created for a single seat, or
+ * refunded when the trip is full. Stripe retries webhooks, so an already
+ * recorded session is returned as-is.
+ */
+export const recordPaidBooking = async (session: Stripe.Checkout.Session) => {
+    const tripId = session.metadata?.tripId;
+    if (!tripId) throw new Error(`Checkout session ${session.id} has no tripId metadata`);
+
+    const payment = {
+        status: 'paid' as const,
+        checkoutSessionId: session.id,
+        paymentIntentId: typeof session.payment_intent === 'string' ? session.payment_intent : session.payment_intent?.id ?? null,
+        amountTotal: session.amount_total ?? 0,
+        currency: session.currency ?? 'usd',
+    };
+
+    const bookingId = session.metadata?.bookingId;
+    const existing = bookingId
+        ? toBooking(await collections.bookings.get(bookingId))
+        : await getBookingBySession(session.id);
+
+    if (existing?.status === 'paid' || existing?.status === 'refunded') return existing;
+    if (existing) return updateBooking(existing.id, payment);
+
+    const refunded = await refundIfOverCapacity(tripId, session, payment.paymentIntentId);
+    const document = await collections.bookings.create(ID.unique(), {
+        ...payment,
+        status: refunded ? 'refunded' : 'paid',
+        tripId,
+        userId: session.client_reference_id,
+        seats: 1,
+        travelerNames: session.customer_details?.name ? [session.customer_details.name] : [],
+        createdAt: new Date().toISOString(),
+    });
+    return toBooking(document);
+}
+
+/** Cancels a pending booking, releasing its seats. Paid bookings are refunded through Stripe instead. */
+export const cancelBooking = async (bookingId: string) => {
+    const booking = toBooking(await collections.bookings.get(bookingId));
+    if (booking.status !== 'pending') throw new BookingError(`A ${booking.status} booking cannot be cancelled`, 409);
+    return updateBooking(booking.id, { status: 'cancelled' });
+}
+
+/** A null capacity means the trip takes unlimited bookings. */
+export const updateTripCapacity = async (tripId: string, capacity: number | null) => {
+    if (capacity !== null && (!Number.isInteger(capacity) || capacity < 0)) {
+        throw new BookingError('Capacity must be a whole number, or empty for unlimited');
+    }
+    await collections.trips.update(tripId, { capacity });
+    return capacity;
+}
+
+/** Releases the seats of a checkout session that expired without payment. */
+export const cancelExpiredBooking = async (session: Stripe.Checkout.Session) => {
+    const booking = await getBookingBySession(session.id);
+    if (booking?.status !== 'pending') return booking;
+    return updateBooking(booking.id, { status: 'cancelled' });
+}
+
+export const markBookingRefunded = async (charge: Stripe.Charge) => {
+    const paymentIntentId = typeof charge.payment_intent === 'string' ? charge.payment_intent : charge.payment_intent?.id;
+    if (!paymentIntentId || !charge.refunded) return null;
+
+    const booking = await findBooking([Query.equal('paymentIntentId', paymentIntentId)]);
+    if (!booking) return null;
+    return updateBooking(booking.id, { status: 'refunded' });
+}
+
+/**
+ * Looks up the booking for a checkout session, confirming it straight from Stripe
+ * when the customer lands on the success page before the webhook arrives.
+ */
+export const confirmBookingForSession = async (sessionId: string) => {
+    const booking = await getBookingBySession(sessionId);
+    if (booking?.status === 'paid') return booking;
+
+    const session = await getStripe().checkout.sessions.retrieve(sessionId);
+    if (session.payment_status !== 'paid') return booking;
+    return recordPaidBooking(session);
+}
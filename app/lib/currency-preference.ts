@@ -0,0 +1,16 @@
+import { createCookie } from "react-router";
+import { DEFAULT_CURRENCY, SUPPORTED_CURRENCIES } from "~/lib/money";
+
+const currencyCookie = createCookie('currency', {
+    path: '/',
+    sameSite: 'lax',
+    maxAge: 60 * 60 * 24 * 365,
+});
+
+/** The viewer's display and checkout currency, from the `currency` cookie. */
+export const getCurrencyPreference = async (request: Request): Promise<string> => {
+    const currency = await currencyCookie.parse(request.headers.get('Cookie'));
+    return SUPPORTED_CURRENCIES.includes(currency) ? currency : DEFAULT_CURRENCY;
+}
+
+export const serializeCurrencyPreference = (currency: string) => currencyCookie.serialize(currency);
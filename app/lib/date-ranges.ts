@@ -0,0 +1,85 @@
+export const RANGE_PRESETS: { value: RangePreset; label: string }[] = [
+    { value: '7d', label: 'Last 7 days' },
+    { value: '30d', label: 'Last 30 days' },
+    { value: 'quarter', label: 'This quarter' },
+    { value: 'ytd', label: 'Year to date' },
+    { value: 'custom', label: 'Custom' },
+];
+
+export const COMPARISON_MODES: { value: ComparisonMode; label: string }[] = [
+    { value: 'previous', label: 'Previous period' },
+    { value: 'year', label: 'Same period last year' },
+];
+
+const DEFAULT_PRESET: RangePreset = '30d';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+const addDays = (date: Date, days: number) => new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+/** `YYYY-MM-DD` in local time, the format used by date inputs and the URL. */
+export const toDateParam = (date: Date) =>
+    `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const parseDateParam = (value: string | null) => {
+    if (!value || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return null;
+    const [year, month, day] = value.split('-').map(Number);
+    const date = new Date(year, month - 1, day);
+    return Number.isNaN(date.getTime()) ? null : date;
+}
+
+const isPreset = (value: string | null): value is RangePreset =>
+    RANGE_PRESETS.some((preset) => preset.value === value);
+
+// Windows are [start, end) so "today" is included by ending at tomorrow's midnight.
+const resolveWindow = (preset: RangePreset, from: Date | null, to: Date | null, now: Date) => {
+    const tomorrow = addDays(startOfDay(now), 1);
+
+    switch (preset) {
+        case '7d':
+            return { start: addDays(tomorrow, -7), end: tomorrow };
+        case 'quarter':
+            return { start: new Date(now.getFullYear(), Math.floor(now.getMonth() / 3) * 3, 1), end: tomorrow };
+        case 'ytd':
+            return { start: new Date(now.getFullYear(), 0, 1), end: tomorrow };
+        case 'custom':
+            if (from && to && from <= to) return { start: from, end: addDays(to, 1) };
+            return resolveWindow(DEFAULT_PRESET, null, null, now);
+        case '30d':
+        default:
+            return { start: addDays(tomorrow, -30), end: tomorrow };
+    }
+}
+
+const shiftYear = (date: Date, years: number) =>
+    new Date(date.getFullYear() + years, date.getMonth(), date.getDate());
+
+/**
+ * Reads `range`, `from`, `to` and `compare` from the dashboard URL and resolves
+ * the selected window plus the window it is compared against.
+ */
+export const resolveDashboardRange = (searchParams: URLSearchParams, now = new Date()): DashboardRange => {
+    const rangeParam = searchParams.get('range');
+    const preset = isPreset(rangeParam) ? rangeParam : DEFAULT_PRESET;
+    const comparison: ComparisonMode = searchParams.get('compare') === 'year' ? 'year' : 'previous';
+
+    const { start, end } = resolveWindow(preset, parseDateParam(searchParams.get('from')), parseDateParam(searchParams.get('to')), now);
+    const days = Math.round((end.getTime() - start.getTime()) / DAY_MS);
+
+    const previous = comparison === 'year'
+        ? { start: shiftYear(start, -1), end: shiftYear(end, -1) }
+        : { start: addDays(start, -days), end: start };
+
+    return {
+        preset,
+        comparison,
+        days,
+        current: { start: start.toISOString(), end: end.toISOString() },
+        previous: { start: previous.start.toISOString(), end: previous.end.toISOString() },
+        from: toDateParam(start),
+        to: toDateParam(addDays(end, -1)),
+    };
+}
+
+export const describeComparison = (comparison: ComparisonMode) =>
+    comparison === 'year' ? 'vs same period last year' : 'vs previous period';
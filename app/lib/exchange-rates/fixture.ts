@@ -0,0 +1,27 @@
+import type { ExchangeRateProvider } from "./types";
+
+// Approximate rates per US dollar, enough to exercise conversions offline.
+const USD_RATES: Record<string, number> = {
+    USD: 1,
+    EUR: 0.92,
+    GBP: 0.79,
+    JPY: 151,
+    CAD: 1.37,
+    AUD: 1.52,
+    CHF: 0.9,
+    INR: 83.4,
+};
+
+export const createFixtureProvider = (): ExchangeRateProvider => ({
+    name: 'fixture',
+    getRates: async (base) => {
+        const baseRate = USD_RATES[base];
+        if (!baseRate) throw new Error(`The fixture exchange rates have no rate for ${base}`);
+
+        return {
+            base,
+            rates: Object.fromEntries(Object.entries(USD_RATES).map(([code, rate]) => [code, rate / baseRate])),
+            date: new Date().toISOString().slice(0, 10),
+        };
+    },
+});
@@ -0,0 +1,13 @@
+import type { ExchangeRateProvider } from "./types";
+
+/** Daily ECB reference rates from the Frankfurter API, which needs no key. */
+export const createFrankfurterProvider = ({ baseUrl }: { baseUrl: string }): ExchangeRateProvider => ({
+    name: 'frankfurter',
+    getRates: async (base, { signal } = {}) => {
+        const response = await fetch(`${baseUrl}/latest?from=${encodeURIComponent(base)}`, { signal });
+        if (!response.ok) throw new Error(`Frankfurter API error: ${response.status}`);
+
+        const { rates, date }: { rates: Record<string, number>; date: string } = await response.json();
+        return { base, rates, date };
+    },
+});
@@ -0,0 +1,60 @@
+import { convertMoney, DEFAULT_CURRENCY } from "~/lib/money";
+import { createFixtureProvider } from "./fixture";
+import { createFrankfurterProvider } from "./frankfurter";
+import type { ExchangeRateProvider, ExchangeRateProviderName } from "./types";
+
+export type { ExchangeRateProvider, ExchangeRateProviderName } from "./types";
+
+const CACHE_TTL_MS = 60 * 60 * 1000;
+
+let cached: { rates: ExchangeRates; expiresAt: number } | undefined;
+
+/**
+ * Resolves the exchange-rate source from server env. `EXCHANGE_RATE_PROVIDER`
+ * picks the implementation. The offline fixture's rates are made up, and checkout
+ * charges converted prices, so it is the default in development only and
+ * production must name a real provider.
+ */
+export const getExchangeRateProvider = (): ExchangeRateProvider => {
+    const isProduction = process.env.NODE_ENV === 'production';
+    const provider = (process.env.EXCHANGE_RATE_PROVIDER ?? (isProduction ? '' : 'fixture')) as ExchangeRateProviderName;
+
+    switch (provider) {
+        case 'fixture':
+            if (isProduction) throw new Error('The fixture exchange rates are for development only. Set EXCHANGE_RATE_PROVIDER to frankfurter.');
+            return createFixtureProvider();
+        case 'frankfurter':
+            return createFrankfurterProvider({
+                baseUrl: process.env.FRANKFURTER_BASE_URL ?? 'https://api.frankfurter.app',
+            });
+        default:
+            throw new Error(provider
+                ? `Unknown EXCHANGE_RATE_PROVIDER '${provider}'. Expected fixture or frankfurter.`
+                : 'EXCHANGE_RATE_PROVIDER is required in production. Set it to frankfurter.');
+    }
+};
+
+/**
+ * Rates against the default currency, cached for an hour. Resolves with null
+ * when the provider fails, so prices fall back to their own currency.
+ */
+export const getExchangeRates = async (): Promise<ExchangeRates | null> => {
+    if (cached && cached.expiresAt > Date.now()) return cached.rates;
+
+    try {
+        const rates = await getExchangeRateProvider().getRates(DEFAULT_CURRENCY);
+        cached = { rates, expiresAt: Date.now() + CACHE_TTL_MS };
+        return rates;
+    } catch (e) {
+        console.error('Failed to load exchange rates:', e instanceof Error ? e.message : e);
+        return null;
+    }
+};
+
+/** Converts with the current rates, or resolves with null when they are unavailable. */
+export const convertPrice = async (money: Money, currency: string) => {
+    if (money.currency === currency) return money;
+
+    const rates = await getExchangeRates();
+    return rates ? convertMoney(money, currency, rates) : null;
+};
@@ -0,0 +1,7 @@
+export interface ExchangeRateProvider {
+    name: string;
+    /** Rates for one unit of `base`. */
+    getRates: (base: string, options?: { signal?: AbortSignal }) => Promise<ExchangeRates>;
+}
+
+export type ExchangeRateProviderName = 'fixture' | 'frankfurter';
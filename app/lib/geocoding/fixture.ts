@@ -0,0 +1,58 @@
+import { world_map } from "~/constants/world_map";
+import type { GeocodingProvider } from "./types";
+
+type Ring = [number, number][];
+
+interface CountryFeature {
+    properties: { name: string; admin?: string };
+    geometry: { type: 'Polygon'; coordinates: Ring[] } | { type: 'MultiPolygon'; coordinates: Ring[][] };
+}
+
+const countries = (world_map as { features: CountryFeature[] }).features;
+
+// The outer ring of the country's largest polygon, so overseas territories don't pull places offshore.
+const mainland = ({ geometry }: CountryFeature): Ring => geometry.type === 'Polygon'
+    ? geometry.coordinates[0]
+    : geometry.coordinates.map((polygon) => polygon[0]).reduce((a, b) => b.length > a.length ? b : a);
+
+const contains = (ring: Ring, [x, y]: [number, number]) => ring.reduce((inside, [xi, yi], i) => {
+    const [xj, yj] = ring[(i + ring.length - 1) % ring.length];
+    return (yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi ? !inside : inside;
+}, false);
+
+// Stable pseudo-random value in [0, 1) for a string and salt.
+const hash = (value: string, salt: number) => {
+    let h = 2166136261 ^ salt;
+    for (const char of value) h = Math.imul(h ^ char.charCodeAt(0), 16777619);
+    return (h >>> 0) / 2 ** 32;
+};
+
+/**
+ * Resolves the last comma-separated part of the query to a country in the
+ * bundled `world_map` shapes and places the rest at a stable point inside it,
+ * so maps can be exercised without any network access.
+ */
+export const createFixtureProvider = (): GeocodingProvider => ({
+    name: 'fixture',
+    geocode: async (query) => {
+        const parts = query.split(',').map((part) => part.trim().toLowerCase());
+        const country = countries.find(({ properties }) =>
+            [properties.name, properties.admin].some((name) => name?.toLowerCase() === parts.at(-1)));
+        if (!country) return null;
+
+        const ring = mainland(country);
+        const longitudes = ring.map(([longitude]) => longitude);
+        const latitudes = ring.map(([, latitude]) => latitude);
+        const [minX, maxX, minY, maxY] = [Math.min(...longitudes), Math.max(...longitudes), Math.min(...latitudes), Math.max(...latitudes)];
+
+        for (let attempt = 0; attempt < 20; attempt++) {
+            const point: [number, number] = [
+                minX + (maxX - minX) * hash(query, attempt * 2),
+                minY + (maxY - minY) * hash(query, attempt * 2 + 1),
+            ];
+            if (contains(ring, point)) return [point[1], point[0]];
+        }
+
+        return [(minY + maxY) / 2, (minX + maxX) / 2];
+    },
+});
@@ -0,0 +1,80 @@
+import { createFixtureProvider } from "./fixture";
+import { createNominatimProvider } from "./nominatim";
+import type { GeocodingProvider, GeocodingProviderName } from "./types";
+
+export type { GeocodingProvider, GeocodingProviderName } from "./types";
+
+const MAX_CACHED_QUERIES = 500;
+
+const cache = new Map<string, [number, number] | null>();
+
+/**
+ * Resolves the geocoder from server env. `GEOCODING_PROVIDER` picks the
+ * implementation; without it nothing is geocoded. The offline fixture makes up
+ * points inside the country, so it is a development option that has to be
+ * named, and production refuses it.
+ */
+export const getGeocodingProvider = (): GeocodingProvider | null => {
+    const provider = process.env.GEOCODING_PROVIDER as GeocodingProviderName | undefined;
+    if (!provider) return null;
+
+    switch (provider) {
+        case 'fixture':
+            if (process.env.NODE_ENV === 'production') throw new Error('The fixture geocoder is for development only. Set GEOCODING_PROVIDER to nominatim.');
+            return createFixtureProvider();
+        case 'nominatim':
+            return createNominatimProvider({
+                baseUrl: process.env.NOMINATIM_BASE_URL ?? 'https://nominatim.openstreetmap.org',
+                userAgent: process.env.NOMINATIM_USER_AGENT ?? 'travel-agency-dashboard',
+            });
+        default:
+            throw new Error(`Unknown GEOCODING_PROVIDER '${provider}'. Expected fixture or nominatim.`);
+    }
+};
+
+/**
+ * Looks up a place, remembering earlier answers. Resolves with null when the
+ * place is unknown, no provider is configured or the provider fails.
+ */
+export const geocode = async (query: string, { signal }: { signal?: AbortSignal } = {}) => {
+    if (cache.has(query)) return cache.get(query)!;
+
+    try {
+        const provider = getGeocodingProvider();
+        if (!provider) return null;
+
+        const coordinates = await provider.geocode(query, { signal });
+        if (cache.size >= MAX_CACHED_QUERIES) cache.clear();
+        cache.set(query, coordinates);
+        return coordinates;
+    } catch (e) {
+        signal?.throwIfAborted();
+        console.error(`Failed to geocode "${query}":`, e instanceof Error ? e.message : e);
+        return null;
+    }
+};
+
+/**
+ * Fills in the coordinates of a day from its location and of its activities
+ * from the day, keeping any the model already returned.
+ */
+export const geocodeDay = async (dayPlan: DayPlan, country: string, { signal }: { signal?: AbortSignal } = {}): Promise<DayPlan> => {
+    const coordinates = dayPlan.coordinates ?? await geocode(`${dayPlan.location}, ${country}`, { signal }) ?? undefined;
+    if (!coordinates) return dayPlan;
+
+    return {
+        ...dayPlan,
+        coordinates,
+        activities: dayPlan.activities.map((activity) => activity.coordinates ? activity : { ...activity, coordinates }),
+    };
+};
+
+/** Geocodes each day of the itinerary in turn; days that can't be found keep no coordinates. */
+export const geocodeItinerary = async <T extends Pick<GeneratedTrip, 'country' | 'itinerary'>>(
+    trip: T,
+    { signal }: { signal?: AbortSignal } = {}
+): Promise<T> => {
+    const itinerary: DayPlan[] = [];
+    for (const dayPlan of trip.itinerary ?? []) itinerary.push(await geocodeDay(dayPlan, trip.country, { signal }));
+    return { ...trip, itinerary };
+};
@@ -0,0 +1,28 @@
+import type { GeocodingProvider } from "./types";
+
+// Nominatim's usage policy allows one request per second.
+const MIN_REQUEST_INTERVAL_MS = 1000;
+
+/** OpenStreetMap's Nominatim search API, which needs no key but an identifying user agent. */
+export const createNominatimProvider = ({ baseUrl, userAgent }: { baseUrl: string; userAgent: string }): GeocodingProvider => {
+    let nextRequestAt = 0;
+
+    return {
+        name: 'nominatim',
+        geocode: async (query, { signal } = {}) => {
+            const wait = nextRequestAt - Date.now();
+            nextRequestAt = Math.max(nextRequestAt, Date.now()) + MIN_REQUEST_INTERVAL_MS;
+            if (wait > 0) await new Promise((resolve) => setTimeout(resolve, wait));
+            signal?.throwIfAborted();
+
+            const response = await fetch(
+                `${baseUrl}/search?format=jsonv2&limit=1&q=${encodeURIComponent(query)}`,
+                { signal, headers: { 'User-Agent': userAgent } }
+            );
+            if (!response.ok) throw new Error(`Nominatim API error: ${response.status}`);
+
+            const [match]: { lat: string; lon: string }[] = await response.json();
+            return match ? [Number(match.lat), Number(match.lon)] : null;
+        },
+    };
+};
@@ -0,0 +1,7 @@
+export interface GeocodingProvider {
+    name: string;
+    /** Latitude and longitude of the best match for `query`, or null when nothing matches. */
+    geocode: (query: string, options?: { signal?: AbortSignal }) => Promise<[number, number] | null>;
+}
+
+export type GeocodingProviderName = 'fixture' | 'nominatim';
@@ -0,0 +1,30 @@
+import { Query } from "node-appwrite";
+import { collections, type UserDocument } from "~/appwrite/server.server";
+
+/**
+ * A user's trip count: the stored `itineraryCount`, or a count query for
+ * documents created before the counter existed.
+ */
+export const getItineraryCount = async (user: UserDocument) => {
+    if (typeof user.itineraryCount === 'number') return user.itineraryCount;
+    const { total } = await collections.trips.list([Query.equal('userId', user.accountId), Query.limit(1)]);
+    return total;
+}
+
+/**
+ * Recounts a user's trips from the trips collection's `userId` and stores the
+ * result as `itineraryCount` on their user document. Recounting instead of
+ * incrementing keeps the figure correct after a missed or failed update.
+ */
+export const syncItineraryCount = async (accountId: string) => {
+    const [{ total: itineraryCount }, { documents }] = await Promise.all([
+        collections.trips.list([Query.equal('userId', accountId), Query.select(['$id']), Query.limit(1)]),
+        collections.users.list([Query.equal('accountId', accountId), Query.limit(1)]),
+    ]);
+
+    const user = documents[0];
+    if (user && user.itineraryCount !== itineraryCount) {
+        await collections.users.update(user.$id, { itineraryCount });
+    }
+    return itineraryCount;
+}
@@ -0,0 +1,200 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { randomUUID } from "node:crypto";
+
+export class NonRetryableJobError extends Error {
+    constructor(message: string, options?: ErrorOptions) {
+        super(message, options);
+        this.name = 'NonRetryableJobError';
+    }
+}
+
+export interface JobContext<TProgress> {
+    jobId: string;
+    signal: AbortSignal;
+    attempt: number;
+    reportProgress: (progress: TProgress) => void;
+}
+
+export interface JobQueue<TPayload, TResult, TProgress> {
+    enqueue: (payload: TPayload) => Promise<JobRecord<TPayload, TResult, TProgress>>;
+    get: (id: string) => Promise<JobRecord<TPayload, TResult, TProgress> | null>;
+    cancel: (id: string) => Promise<JobRecord<TPayload, TResult, TProgress> | null>;
+}
+
+interface JobQueueOptions<TPayload, TResult, TProgress> {
+    type: string;
+    handler: (payload: TPayload, context: JobContext<TProgress>) => Promise<TResult>;
+    /** JSON file used to persist jobs across restarts; in-memory only when omitted. */
+    file?: string;
+    maxAttempts?: number;
+    baseDelayMs?: number;
+    /** How long finished jobs are kept for status polling before they are pruned. */
+    retentionMs?: number;
+    /** Extra fields to store on a job when its handler fails, e.g. validation issues. */
+    describeError?: (error: unknown) => Partial<JobRecord<TPayload, TResult, TProgress>>;
+}
+
+const FINISHED_STATUSES: JobStatus[] = ['succeeded', 'failed', 'cancelled'];
+
+/**
+ * A single-worker, in-process job queue with exponential backoff between retries.
+ * Running jobs found in the persisted file at startup are re-queued, and finished
+ * jobs are dropped once they are older than `retentionMs`.
+ */
+export const createJobQueue = <TPayload, TResult, TProgress>({
+    type,
+    handler,
+    file,
+    maxAttempts = 3,
+    baseDelayMs = 2_000,
+    retentionMs = 7 * 24 * 60 * 60 * 1000,
+    describeError,
+}: JobQueueOptions<TPayload, TResult, TProgress>): JobQueue<TPayload, TResult, TProgress> => {
+    type Job = JobRecord<TPayload, TResult, TProgress>;
+
+    const jobs = new Map<string, Job>();
+    const controllers = new Map<string, AbortController>();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let working = false;
+
+    const ready = (async () => {
+        if (!file) return;
+        try {
+            const stored: Job[] = JSON.parse(await readFile(file, 'utf8'));
+            stored.forEach((job) => jobs.set(job.id, job.status === 'running' ? { ...job, status: 'queued' } : job));
+        } catch (e) {
+            if ((e as NodeJS.ErrnoException).code !== 'ENOENT') console.error(`Failed to load ${type} jobs:`, e);
+        }
+    })();
+
+    // Writes are chained so a slow write can never overwrite a newer snapshot.
+    let writing = Promise.resolve();
+    const persist = () => {
+        if (!file) return writing;
+        writing = writing.then(async () => {
+            try {
+                await mkdir(dirname(file), { recursive: true });
+                await writeFile(file, JSON.stringify([...jobs.values()], null, 2));
+            } catch (e) {
+                console.error(`Failed to persist ${type} jobs:`, e);
+            }
+        });
+        return writing;
+    };
+
+    const prune = () => {
+        const cutoff = Date.now() - retentionMs;
+        const expired = [...jobs.values()]
+            .filter((job) => FINISHED_STATUSES.includes(job.status) && new Date(job.updatedAt).getTime() < cutoff);
+        if (expired.length === 0) return;
+
+        expired.forEach((job) => jobs.delete(job.id));
+        void persist();
+    };
+
+    const update = (id: string, patch: Partial<Job>) => {
+        const job = jobs.get(id);
+        if (!job) return;
+        jobs.set(id, { ...job, ...patch, updatedAt: new Date().toISOString() });
+        void persist();
+    };
+
+    const schedule = (delay = 0) => {
+        clearTimeout(timer);
+        timer = setTimeout(() => void work(), delay);
+    };
+
+    const nextDue = () => {
+        const queued = [...jobs.values()]
+            .filter((job) => job.status === 'queued')
+            .sort((a, b) => a.runAfter.localeCompare(b.runAfter));
+        return queued[0];
+    };
+
+    const work = async () => {
+        if (working) return;
+        await ready;
+
+        const job = nextDue();
+        if (!job) return;
+
+        const wait = new Date(job.runAfter).getTime() - Date.now();
+        if (wait > 0) return schedule(wait);
+
+        working = true;
+        const controller = new AbortController();
+        controllers.set(job.id, controller);
+        const attempt = job.attempts + 1;
+        update(job.id, { status: 'running', attempts: attempt, error: undefined });
+
+        try {
+            const result = await handler(job.payload, {
+                jobId: job.id,
+                signal: controller.signal,
+                attempt,
+                reportProgress: (progress) => update(job.id, { progress }),
+            });
+            update(job.id, { status: 'succeeded', result });
+        } catch (e) {
+            const error = e instanceof Error ? e.message : 'Unknown error';
+
+            if (controller.signal.aborted) {
+                update(job.id, { status: 'cancelled', error: 'Cancelled by user' });
+            } else if (attempt >= job.maxAttempts || e instanceof NonRetryableJobError) {
+                console.error(`${type} job ${job.id} failed:`, error);
+                update(job.id, { status: 'failed', error, ...describeError?.(e) });
+            } else {
+                const delay = baseDelayMs * 2 ** (attempt - 1);
+                console.warn(`${type} job ${job.id} attempt ${attempt} failed, retrying in ${delay}ms:`, error);
+                update(job.id, { status: 'queued', error, runAfter: new Date(Date.now() + delay).toISOString() });
+            }
+        } finally {
+            controllers.delete(job.id);
+            working = false;
+            prune();
+            schedule();
+        }
+    };
+
+    void ready.then(() => {
+        prune();
+        schedule();
+    });
+
+    return {
+        enqueue: async (payload: TPayload) => {
+            await ready;
+            const now = new Date().toISOString();
+            const job: Job = {
+                id: randomUUID(),
+                type,
+                status: 'queued',
+                payload,
+                attempts: 0,
+                maxAttempts,
+                createdAt: now,
+                updatedAt: now,
+                runAfter: now,
+            };
+            jobs.set(job.id, job);
+            await persist();
+            schedule();
+            return job;
+        },
+        get: async (id: string) => {
+            await ready;
+            return jobs.get(id) ?? null;
+        },
+        cancel: async (id: string) => {
+            await ready;
+            const job = jobs.get(id);
+            if (!job || (job.status !== 'queued' && job.status !== 'running')) return job ?? null;
+
+            if (job.status === 'running') controllers.get(id)?.abort();
+            else update(id, { status: 'cancelled', error: 'Cancelled by user' });
+            return jobs.get(id) ?? null;
+        },
+    };
+};
+
@@ -0,0 +1,95 @@
+import type { LLMProvider } from "./types";
+
+const FIXTURE_DAYS: Omit<DayPlan, 'day'>[] = [
+    {
+        location: 'Old Town',
+        activities: [
+            { time: 'Morning', description: '🏰 Guided walking tour of the historic old town', cost: { category: 'activities', amount: 20 } },
+            { time: 'Afternoon', description: '🖼️ Visit the national museum of art and history', cost: { category: 'activities', amount: 15 } },
+            { time: 'Evening', description: '🍷 Dinner at a traditional family-run restaurant', cost: { category: 'food', amount: 45 } },
+        ],
+        costs: [{ category: 'lodging', amount: 90 }],
+    },
+    {
+        location: 'Coastline',
+        activities: [
+            { time: 'Morning', description: '🚤 Boat trip along the coast with a swim stop', cost: { category: 'activities', amount: 40 } },
+            { time: 'Afternoon', description: '🏖️ Free time on the beach', cost: { category: 'food', amount: 20 } },
+            { time: 'Evening', description: '🌅 Sunset drinks at a seaside bar', cost: { category: 'food', amount: 25 } },
+        ],
+        costs: [{ category: 'lodging', amount: 90 }, { category: 'transport', amount: 15 }],
+    },
+    {
+        location: 'Countryside',
+        activities: [
+            { time: 'Morning', description: '🥾 Hike through the national park', cost: { category: 'activities', amount: 10 } },
+            { time: 'Afternoon', description: '🧀 Farm visit with a local food tasting', cost: { category: 'food', amount: 30 } },
+            { time: 'Evening', description: '🎶 Folk music evening in a village square', cost: { category: 'activities', amount: 0 } },
+        ],
+        costs: [{ category: 'lodging', amount: 80 }, { category: 'transport', amount: 25 }],
+    },
+];
+
+const readField = (prompt: string, label: string) =>
+    prompt.match(new RegExp(`${label}: '([^']*)'`))?.[1] ?? '';
+
+/**
+ * Builds a canned trip from the parameters embedded in the prompt so
+ * `/api/create-trip` can be exercised without any network access.
+ */
+export const buildFixtureTrip = (prompt: string): GeneratedTrip => {
+    const [, days = '3', country = 'Croatia'] =
+        prompt.match(/Generate a (\d+)-day travel itinerary for (.+?) based on/) ?? [];
+    const duration = Number(days);
+
+    return {
+        name: `${duration}-Day ${country} Discovery`,
+        description: `A balanced ${duration}-day journey through ${country}, mixing historic towns, coastal scenery and countryside food.`,
+        estimatedPrice: `$${duration * 150}`,
+        duration,
+        budget: readField(prompt, 'Budget'),
+        travelStyle: readField(prompt, 'TravelStyle'),
+        interests: readField(prompt, 'Interests'),
+        groupType: readField(prompt, 'GroupType'),
+        country,
+        bestTimeToVisit: [
+            '🌸 Spring (April to June): mild weather and fewer crowds',
+            '☀️ Summer (July to August): long beach days and festivals',
+        ],
+        weatherInfo: [
+            '☀️ Summer: 24-30°C (75-86°F)',
+            '❄️ Winter: 2-10°C (36-50°F)',
+        ],
+        location: {
+            city: country,
+            coordinates: [45.1, 15.2],
+            openStreetMap: 'https://www.openstreetmap.org/#map=7/45.1/15.2',
+        },
+        itinerary: Array.from({ length: duration }, (_, i) => ({
+            day: i + 1,
+            ...FIXTURE_DAYS[i % FIXTURE_DAYS.length],
+        })),
+    };
+};
+
+const buildFixtureDay = (prompt: string): DayPlan => {
+    const day = Number(prompt.match(/Regenerate day (\d+)/)?.[1] ?? 1);
+    return { day, ...FIXTURE_DAYS[(day + 1) % FIXTURE_DAYS.length] };
+};
+
+const renderFixture = (prompt: string) => {
+    const fixture = prompt.startsWith('Regenerate day') ? buildFixtureDay(prompt) : buildFixtureTrip(prompt);
+    return `\`\`\`json\n${JSON.stringify(fixture, null, 2)}\n\`\`\``;
+};
+
+export const createFixtureProvider = (): LLMProvider => ({
+    name: 'fixture',
+    generate: async (prompt) => renderFixture(prompt),
+    stream: async function* (prompt, { signal } = {}) {
+        const text = renderFixture(prompt);
+        for (let i = 0; i < text.length; i += 200) {
+            signal?.throwIfAborted();
+            yield text.slice(i, i + 200);
+        }
+    },
+});
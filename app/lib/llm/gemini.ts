@@ -0,0 +1,20 @@
+import { GoogleGenerativeAI } from "@google/generative-ai";
+import type { LLMProvider } from "./types";
+
+export const createGeminiProvider = ({ apiKey, model }: { apiKey: string; model: string }): LLMProvider => {
+    const generativeModel = new GoogleGenerativeAI(apiKey).getGenerativeModel({ model });
+
+    return {
+        name: `gemini:${model}`,
+        generate: async (prompt, { signal } = {}) => {
+            const textResult = await generativeModel.generateContent([prompt], { signal });
+            return textResult?.response?.text?.() ?? '';
+        },
+        stream: async function* (prompt, { signal } = {}) {
+            const { stream } = await generativeModel.generateContentStream([prompt], { signal });
+            for await (const chunk of stream) {
+                yield chunk.text();
+            }
+        },
+    };
+};
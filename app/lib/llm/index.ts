@@ -0,0 +1,39 @@
+import { createGeminiProvider } from "./gemini";
+import { createOpenAICompatibleProvider } from "./openai";
+import { createFixtureProvider } from "./fixture";
+import type { LLMProvider, LLMProviderName } from "./types";
+
+export type { GenerateOptions, LLMProvider, LLMProviderName } from "./types";
+
+const requireEnv = (key: string) => {
+    const value = process.env[key];
+    if (!value) throw new Error(`${key} must be set when LLM_PROVIDER is '${process.env.LLM_PROVIDER ?? 'gemini'}'`);
+    return value;
+};
+
+/**
+ * Resolves the itinerary model from server env. `LLM_PROVIDER` picks the
+ * implementation (defaults to Gemini) and `LLM_MODEL` overrides its model.
+ */
+export const getLLMProvider = (): LLMProvider => {
+    const provider = (process.env.LLM_PROVIDER ?? 'gemini') as LLMProviderName;
+    const model = process.env.LLM_MODEL;
+
+    switch (provider) {
+        case 'gemini':
+            return createGeminiProvider({
+                apiKey: requireEnv('GEMINI_API_KEY'),
+                model: model ?? 'gemini-2.5-flash-lite',
+            });
+        case 'openai':
+            return createOpenAICompatibleProvider({
+                baseUrl: process.env.OPENAI_BASE_URL ?? 'https://api.openai.com/v1',
+                apiKey: process.env.OPENAI_API_KEY,
+                model: model ?? 'gpt-4o-mini',
+            });
+        case 'fixture':
+            return createFixtureProvider();
+        default:
+            throw new Error(`Unknown LLM_PROVIDER '${provider}'. Expected gemini, openai or fixture.`);
+    }
+};
@@ -0,0 +1,66 @@
+import type { LLMProvider } from "./types";
+
+interface OpenAICompatibleConfig {
+    baseUrl: string;
+    apiKey?: string;
+    model: string;
+}
+
+/**
+ * Talks to any endpoint implementing the OpenAI `/chat/completions` API
+ * (OpenAI itself, Azure, OpenRouter, Ollama, vLLM, LM Studio...).
+ */
+export const createOpenAICompatibleProvider = ({ baseUrl, apiKey, model }: OpenAICompatibleConfig): LLMProvider => {
+    const requestCompletion = async (prompt: string, stream: boolean, signal?: AbortSignal) => {
+        const response = await fetch(`${baseUrl.replace(/\/$/, '')}/chat/completions`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
+            },
+            body: JSON.stringify({
+                model,
+                messages: [{ role: 'user', content: prompt }],
+                response_format: { type: 'json_object' },
+                stream,
+            }),
+            signal,
+        });
+
+        if (!response.ok) {
+            throw new Error(`OpenAI-compatible endpoint error: ${response.status} ${await response.text()}`);
+        }
+        return response;
+    };
+
+    return {
+        name: `openai:${model}`,
+        generate: async (prompt, { signal } = {}) => {
+            const response = await requestCompletion(prompt, false, signal);
+            const { choices } = await response.json();
+            return choices?.[0]?.message?.content ?? '';
+        },
+        stream: async function* (prompt, { signal } = {}) {
+            const response = await requestCompletion(prompt, true, signal);
+            const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+            let buffer = '';
+
+            while (true) {
+                const { done, value } = await reader.read();
+                if (done) break;
+
+                buffer += value;
+                const lines = buffer.split('\n');
+                buffer = lines.pop() ?? '';
+
+                for (const line of lines) {
+                    const payload = line.replace(/^data:\s*/, '').trim();
+                    if (!line.startsWith('data:') || !payload || payload === '[DONE]') continue;
+
+                    const content = JSON.parse(payload).choices?.[0]?.delta?.content;
+                    if (content) yield content;
+                }
+            }
+        },
+    };
+};
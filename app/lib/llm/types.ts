@@ -0,0 +1,12 @@
+export interface GenerateOptions {
+    signal?: AbortSignal;
+}
+
+export interface LLMProvider {
+    name: string;
+    generate: (prompt: string, options?: GenerateOptions) => Promise<string>;
+    /** Yields the response text incrementally, for providers that support it. */
+    stream?: (prompt: string, options?: GenerateOptions) => AsyncIterable<string>;
+}
+
+export type LLMProviderName = 'gemini' | 'openai' | 'fixture';
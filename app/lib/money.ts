@@ -0,0 +1,79 @@
+export const DEFAULT_CURRENCY = 'USD';
+
+/** Currencies offered in the currency selector. */
+export const SUPPORTED_CURRENCIES = ['USD', 'EUR', 'GBP', 'JPY', 'CAD', 'AUD', 'CHF', 'INR'];
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+    '$': 'USD',
+    'US$': 'USD',
+    'A$': 'AUD',
+    'C$': 'CAD',
+    '€': 'EUR',
+    '£': 'GBP',
+    'E£': 'EGP',
+    '¥': 'JPY',
+    '₹': 'INR',
+};
+
+const PRICE_PATTERN = /([A-Z]{3}|[A-Z]{0,2}[$€£¥₹])?\s*(\d[\d,]*(?:\.\d+)?)\s*([A-Z]{3}|[$€£¥₹])?/;
+
+export const isCurrencyCode = (value: string) => {
+    if (!/^[A-Z]{3}$/.test(value)) return false;
+    try {
+        new Intl.NumberFormat('en-US', { style: 'currency', currency: value });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/** Decimal places of the currency's minor unit, e.g. 2 for USD and 0 for JPY. */
+export const minorUnitDigits = (currency: string) =>
+    new Intl.NumberFormat('en-US', { style: 'currency', currency }).resolvedOptions().maximumFractionDigits ?? 2;
+
+export const toMinorUnits = (amount: number, currency: string) =>
+    Math.round(amount * 10 ** minorUnitDigits(currency));
+
+export const toMajorUnits = ({ amount, currency }: Money) =>
+    amount / 10 ** minorUnitDigits(currency);
+
+/**
+ * Reads the first price in free text such as "$1,200", "1200 EUR" or
+ * "US$1,000 - 1,500". A symbol or ISO code picks the currency, otherwise
+ * `fallbackCurrency` is assumed. Returns null when there is no positive amount.
+ */
+export const parseMoney = (text: string, fallbackCurrency = DEFAULT_CURRENCY): Money | null => {
+    const match = text.match(PRICE_PATTERN);
+    if (!match) return null;
+
+    const [, prefix, digits, suffix] = match;
+    const amount = Number(digits.replace(/,/g, ''));
+    if (!Number.isFinite(amount) || amount <= 0) return null;
+
+    const marker = prefix ?? suffix;
+    const currency = marker && (CURRENCY_SYMBOLS[marker] ?? (isCurrencyCode(marker) ? marker : undefined));
+    const code = currency || fallbackCurrency;
+
+    return { amount: toMinorUnits(amount, code), currency: code };
+}
+
+/** Formats whole units only: trip prices are estimates. */
+export const formatMoney = (money: Money, locale = 'en-US') =>
+    new Intl.NumberFormat(locale, { style: 'currency', currency: money.currency, maximumFractionDigits: 0 })
+        .format(toMajorUnits(money));
+
+/** Formats to the currency's minor unit, for amounts actually charged. */
+export const formatExactMoney = (money: Money, locale = 'en-US') =>
+    new Intl.NumberFormat(locale, { style: 'currency', currency: money.currency }).format(toMajorUnits(money));
+
+/** Returns null when the rates don't cover either currency. */
+export const convertMoney = (money: Money, currency: string, { base, rates }: ExchangeRates): Money | null => {
+    if (money.currency === currency) return money;
+
+    const rateOf = (code: string) => code === base ? 1 : rates[code];
+    const from = rateOf(money.currency);
+    const to = rateOf(currency);
+    if (!from || !to) return null;
+
+    return { amount: toMinorUnits(toMajorUnits(money) * to / from, currency), currency };
+}
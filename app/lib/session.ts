@@ -0,0 +1,88 @@
+import { createCookieSessionStorage, redirect } from "react-router";
+import { Query } from "node-appwrite";
+import { collections } from "~/appwrite/server.server";
+
+interface SessionData {
+    accountId: string;
+}
+
+const SESSION_MAX_AGE = 60 * 60 * 24 * 7;
+
+if (!process.env.SESSION_SECRET && process.env.NODE_ENV === 'production') {
+    throw new Error('SESSION_SECRET must be set to sign session cookies');
+}
+
+/**
+ * The signed, HTTP-only `__session` cookie holding the Appwrite account that
+ * signed in. It is set by `/api/session` once the browser proves its Appwrite
+ * session with a JWT, so server loaders and actions know the user too.
+ */
+const sessionStorage = createCookieSessionStorage<SessionData>({
+    cookie: {
+        name: '__session',
+        path: '/',
+        httpOnly: true,
+        sameSite: 'lax',
+        secure: process.env.NODE_ENV === 'production',
+        secrets: [process.env.SESSION_SECRET ?? 'dev-session-secret'],
+        maxAge: SESSION_MAX_AGE,
+    },
+});
+
+/** The user document of an account, including accounts linked to another profile. */
+export const getUserByAccountId = async (accountId: string) => {
+    const { documents } = await collections.users.list([
+        Query.or([Query.equal('accountId', accountId), Query.contains('linkedAccountIds', accountId)]),
+        Query.limit(1),
+    ]);
+    return documents[0] ?? null;
+}
+
+/** The account id stored in the request's session cookie, if any. */
+export const getSessionAccountId = async (request: Request) => {
+    const session = await sessionStorage.getSession(request.headers.get('Cookie'));
+    return session.get('accountId') ?? null;
+}
+
+/** The signed-in user's document, or null for visitors. */
+export const getSessionUser = async (request: Request) => {
+    const accountId = await getSessionAccountId(request);
+    return accountId ? getUserByAccountId(accountId) : null;
+}
+
+export const createUserSession = async (accountId: string) => {
+    const session = await sessionStorage.getSession();
+    session.set('accountId', accountId);
+    return sessionStorage.commitSession(session);
+}
+
+export const destroyUserSession = async (request: Request) =>
+    sessionStorage.destroySession(await sessionStorage.getSession(request.headers.get('Cookie')));
+
+/**
+ * Resolves the signed-in user in a server `loader` or `action`, or throws a
+ * redirect to sign-in that brings them back afterwards. Suspended users are
+ * signed out.
+ */
+export const requireUser = async (request: Request) => {
+    const user = await getSessionUser(request);
+
+    if (!user) {
+        const { pathname, search } = new URL(request.url);
+        throw redirect(`/sign-in?redirectTo=${encodeURIComponent(pathname + search)}`, {
+            headers: { 'Set-Cookie': await destroyUserSession(request) },
+        });
+    }
+    if (user.suspended) {
+        throw redirect('/sign-in?suspended=1', { headers: { 'Set-Cookie': await destroyUserSession(request) } });
+    }
+
+    return user;
+}
+
+/** Like `requireUser`, and sends signed-in users who aren't admins to the public site. */
+export const requireAdmin = async (request: Request) => {
+    const user = await requireUser(request);
+    if (user.status !== 'admin') throw redirect('/');
+    return user;
+}
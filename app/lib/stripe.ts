@@ -1,12 +1,34 @@
 import Stripe from 'stripe';
 
-export const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
-    apiVersion: '2025-03-31.basil'
-})
+let client: Stripe | undefined;
 
+export const isStripeConfigured = () => Boolean(process.env.STRIPE_SECRET_KEY);
+
+/**
+ * Lazily created so the app still boots without Stripe credentials.
+ * STRIPE_API_HOST/PORT/PROTOCOL point the SDK at a local stripe-mock.
+ */
+export const getStripe = () => {
+    if (client) return client;
+    if (!process.env.STRIPE_SECRET_KEY) throw new Error('STRIPE_SECRET_KEY is not set');
+
+    client = new Stripe(process.env.STRIPE_SECRET_KEY, {
+        apiVersion: '2025-03-31.basil',
+        ...(process.env.STRIPE_API_HOST && {
+            host: process.env.STRIPE_API_HOST,
+            port: process.env.STRIPE_API_PORT,
+            protocol: process.env.STRIPE_API_PROTOCOL === 'http' ? 'http' : 'https',
+        }),
+    });
+    return client;
+}
+
+/** Creates a Stripe product, its price and a payment link that returns buyers to the trip's success page. */
 export const createProduct = async (
-    name: string, description: string, images: string[], price:number, tripId: string
+    name: string, description: string, images: string[], price: Money, tripId: string
 ) => {
+    const stripe = getStripe();
+
     const product = await stripe.products.create({
         name,
         description,
@@ -15,20 +37,27 @@ export const createProduct = async (
 
     const priceObject = await stripe.prices.create({
         product: product.id,
-        unit_amount: price * 100,
-        currency: 'usd'
+        unit_amount: price.amount,
+        currency: price.currency.toLowerCase()
     })
 
     const paymentLink = await stripe.paymentLinks.create({
         line_items: [{ price: priceObject.id, quantity: 1}],
+        // Copied onto every checkout session, so the webhook can find the trip.
         metadata: { tripId },
         after_completion: {
             type: 'redirect',
             redirect: {
-                url: `${process.env.VITE_BASE_URL}/travel/${tripId}/success`
+                url: `${process.env.VITE_BASE_URL}/travel/${tripId}/success?session_id={CHECKOUT_SESSION_ID}`
             }
         }
     })
 
     return paymentLink;
-}
\ No newline at end of file
+}
+
+/** Verifies the `Stripe-Signature` header against STRIPE_WEBHOOK_SECRET. */
+export const constructWebhookEvent = (payload: string, signature: string) => {
+    if (!process.env.STRIPE_WEBHOOK_SECRET) throw new Error('STRIPE_WEBHOOK_SECRET is not set');
+    return getStripe().webhooks.constructEventAsync(payload, signature, process.env.STRIPE_WEBHOOK_SECRET);
+}
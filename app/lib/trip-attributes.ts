@@ -0,0 +1,114 @@
+import type { Models } from "appwrite";
+import { parseMoney } from "~/lib/money";
+import { parseTripData } from "~/lib/utils";
+
+/** The trip's structured price, parsed from `estimatedPrice` when it was never stored. */
+export const getTripPrice = (trip: Pick<GeneratedTrip, 'estimatedPrice' | 'price'>) =>
+    trip.price ?? parseMoney(trip.estimatedPrice ?? '');
+
+/**
+ * Trip documents store each trip field as its own attribute instead of one
+ * `tripDetails` JSON string. The trips collection needs the string attributes
+ * `name`, `description`, `country`, `travelStyle`, `interests`, `budget`,
+ * `groupType`, `estimatedPrice`, `priceCurrency`, `city` and `openStreetMap`,
+ * the integers `duration` and `priceAmount` (minor units), the float array
+ * `coordinates` and the string arrays `bestTimeToVisit`, `weatherInfo` and
+ * `itinerary` (one JSON-encoded day per entry). `name`, `country`,
+ * `travelStyle`, `interests`, `budget`, `groupType`, `duration` and
+ * `priceAmount` have key indexes, and `name` and `country` a fulltext index.
+ * `tripDetails` is kept optional and cleared on write;
+ * `scripts/migrate-trips.mjs` backfills documents that still use it.
+ */
+export const toTripAttributes = (trip: GeneratedTrip) => {
+    const price = getTripPrice(trip);
+
+    return {
+        name: trip.name,
+        description: trip.description,
+        country: trip.country,
+        travelStyle: trip.travelStyle,
+        interests: trip.interests,
+        budget: trip.budget,
+        groupType: trip.groupType,
+        duration: trip.duration,
+        estimatedPrice: trip.estimatedPrice,
+        priceAmount: price?.amount ?? null,
+        priceCurrency: price?.currency ?? null,
+        bestTimeToVisit: trip.bestTimeToVisit ?? [],
+        weatherInfo: trip.weatherInfo ?? [],
+        city: trip.location?.city ?? null,
+        coordinates: trip.location?.coordinates ?? [],
+        openStreetMap: trip.location?.openStreetMap ?? null,
+        itinerary: (trip.itinerary ?? []).map((day) => JSON.stringify(day)),
+        tripDetails: null,
+    };
+}
+
+export type TripAttributes = ReturnType<typeof toTripAttributes>;
+
+const parseDay = (value: string): DayPlan[] => {
+    try {
+        return [JSON.parse(value)];
+    } catch {
+        return [];
+    }
+}
+
+/**
+ * Reads the trip content of a document, from its attributes or, for documents
+ * not migrated yet, from the legacy `tripDetails` JSON. Returns null when
+ * neither holds a trip.
+ */
+export const toGeneratedTrip = (document: Models.Document): GeneratedTrip | null => {
+    if (document.tripDetails) {
+        const trip = parseTripData(document.tripDetails);
+        return trip && { ...trip, price: getTripPrice(trip) ?? undefined };
+    }
+    if (!document.name) return null;
+
+    return {
+        name: document.name,
+        description: document.description ?? '',
+        country: document.country,
+        travelStyle: document.travelStyle,
+        interests: document.interests,
+        budget: document.budget,
+        groupType: document.groupType,
+        duration: document.duration,
+        estimatedPrice: document.estimatedPrice ?? '',
+        price: typeof document.priceAmount === 'number' && document.priceCurrency
+            ? { amount: document.priceAmount, currency: document.priceCurrency }
+            : parseMoney(document.estimatedPrice ?? '') ?? undefined,
+        bestTimeToVisit: document.bestTimeToVisit ?? [],
+        weatherInfo: document.weatherInfo ?? [],
+        location: {
+            city: document.city ?? '',
+            coordinates: document.coordinates ?? [],
+            openStreetMap: document.openStreetMap ?? '',
+        },
+        itinerary: (document.itinerary ?? []).flatMap(parseDay),
+    };
+}
+
+export const toTrip = (document: Models.Document): Trip | null => {
+    const trip = toGeneratedTrip(document);
+    if (!trip) return null;
+
+    return {
+        ...trip,
+        id: document.$id,
+        imageUrls: document.imageUrls ?? [],
+        payment_link: document.payment_link ?? '',
+    };
+}
+
+/** The trip's content as the JSON snapshot stored with each revision. */
+export const serializeTrip = (document: Models.Document) => {
+    const trip = toGeneratedTrip(document);
+    return trip ? JSON.stringify(trip) : null;
+}
+
+export const tripAttributesFromDetails = (tripDetails: string) => {
+    const trip = parseTripData(tripDetails);
+    return trip ? toTripAttributes(trip) : {};
+}
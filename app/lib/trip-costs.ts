@@ -0,0 +1,95 @@
+export const COST_CATEGORIES: CostCategory[] = ['lodging', 'transport', 'food', 'activities'];
+
+export const COST_CATEGORY_LABELS: Record<CostCategory, string> = {
+    lodging: 'Lodging',
+    transport: 'Transport',
+    food: 'Food',
+    activities: 'Activities',
+};
+
+/**
+ * Expected spend per person per day, in USD, for each tier in `budgetOptions`.
+ * Rough bands meant to flag itineraries that don't match the tier the
+ * traveler picked.
+ */
+export const DAILY_BUDGET_RANGES: Record<string, { min: number; max: number }> = {
+    'Budget': { min: 0, max: 75 },
+    'Mid-range': { min: 75, max: 175 },
+    'Luxury': { min: 175, max: 400 },
+    'Premium': { min: 400, max: Infinity },
+};
+
+/** Travelers assumed for each of `groupTypes`: generated costs are for the whole group. */
+export const GROUP_SIZES: Record<string, number> = {
+    'Solo': 1,
+    'Couple': 2,
+    'Family': 4,
+    'Friends': 4,
+    'Business': 3,
+};
+
+type CategoryTotals = Record<CostCategory, number>;
+
+export interface DayCostSummary {
+    day: number;
+    location: string;
+    total: number;
+    byCategory: CategoryTotals;
+}
+
+export interface TripCostSummary {
+    total: number;
+    dailyAverage: number;
+    byCategory: CategoryTotals;
+    days: DayCostSummary[];
+}
+
+export type BudgetStatus = 'under' | 'within' | 'over';
+
+const emptyTotals = (): CategoryTotals => ({ lodging: 0, transport: 0, food: 0, activities: 0 });
+
+const dayCosts = ({ activities, costs = [] }: DayPlan) => [
+    ...activities.flatMap(({ cost }) => cost ? [cost] : []),
+    ...costs,
+];
+
+/**
+ * Adds up the activity and day costs of an itinerary. Amounts stay in the
+ * trip's own currency. Returns null for trips generated without costs.
+ */
+export const summarizeTripCosts = (trip: Pick<GeneratedTrip, 'itinerary'>): TripCostSummary | null => {
+    const itinerary = trip.itinerary ?? [];
+    if (!itinerary.some((dayPlan) => dayCosts(dayPlan).length > 0)) return null;
+
+    const byCategory = emptyTotals();
+    const days = itinerary.map((dayPlan) => {
+        const totals = emptyTotals();
+        dayCosts(dayPlan).forEach(({ category, amount }) => {
+            totals[category] += amount;
+            byCategory[category] += amount;
+        });
+
+        return {
+            day: dayPlan.day,
+            location: dayPlan.location,
+            total: COST_CATEGORIES.reduce((sum, category) => sum + totals[category], 0),
+            byCategory: totals,
+        };
+    });
+
+    const total = days.reduce((sum, day) => sum + day.total, 0);
+    return { total, dailyAverage: total / days.length, byCategory, days };
+}
+
+/** The group's average daily spend split across its travelers, in the trip's currency. */
+export const perPersonDailyCost = ({ dailyAverage }: TripCostSummary, groupType: string) =>
+    dailyAverage / (GROUP_SIZES[groupType] ?? 1);
+
+/** Compares a per-person daily spend in USD with the range of a budget tier. */
+export const assessBudget = (budget: string, perPersonDailyUsd: number): BudgetStatus | null => {
+    const range = DAILY_BUDGET_RANGES[budget];
+    if (!range) return null;
+    if (perPersonDailyUsd < range.min) return 'under';
+    if (perPersonDailyUsd > range.max) return 'over';
+    return 'within';
+}
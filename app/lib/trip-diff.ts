@@ -0,0 +1,80 @@
+const SUMMARY_FIELDS = [
+    'name', 'description', 'estimatedPrice', 'duration', 'budget',
+    'travelStyle', 'interests', 'groupType', 'country', 'bestTimeToVisit', 'weatherInfo',
+] as const;
+
+const stringify = (value: unknown) =>
+    Array.isArray(value) ? value.join('; ') : value === undefined || value === null ? '' : String(value);
+
+const formatActivity = ({ time, description, cost }: Activity) =>
+    `${time}: ${description}${cost ? ` (${cost.category}, ${cost.amount})` : ''}`;
+
+/**
+ * Line diff of two string lists based on their longest common subsequence,
+ * so reordered or edited activities show up as removed/added pairs.
+ */
+export const diffLists = (before: string[], after: string[]): ListChange[] => {
+    const lengths = Array.from({ length: before.length + 1 }, () => new Array<number>(after.length + 1).fill(0));
+
+    for (let i = before.length - 1; i >= 0; i--) {
+        for (let j = after.length - 1; j >= 0; j--) {
+            lengths[i][j] = before[i] === after[j]
+                ? lengths[i + 1][j + 1] + 1
+                : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+        }
+    }
+
+    const changes: ListChange[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < before.length && j < after.length) {
+        if (before[i] === after[j]) {
+            changes.push({ type: 'same', value: before[i] });
+            i++;
+            j++;
+        } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+            changes.push({ type: 'removed', value: before[i++] });
+        } else {
+            changes.push({ type: 'added', value: after[j++] });
+        }
+    }
+    before.slice(i).forEach((value) => changes.push({ type: 'removed', value }));
+    after.slice(j).forEach((value) => changes.push({ type: 'added', value }));
+
+    return changes;
+}
+
+/** Compares two versions of a trip field by field and day by day. */
+export const diffTrips = (before: Partial<GeneratedTrip>, after: Partial<GeneratedTrip>): TripDiff => {
+    const fields = SUMMARY_FIELDS
+        .map((field) => ({ field, before: stringify(before[field]), after: stringify(after[field]) }))
+        .filter((change) => change.before !== change.after);
+
+    const beforeDays = new Map((before.itinerary ?? []).map((dayPlan) => [dayPlan.day, dayPlan]));
+    const afterDays = new Map((after.itinerary ?? []).map((dayPlan) => [dayPlan.day, dayPlan]));
+    const dayNumbers = [...new Set([...beforeDays.keys(), ...afterDays.keys()])].sort((a, b) => a - b);
+
+    const days = dayNumbers.map((day): DayDiff => {
+        const previous = beforeDays.get(day);
+        const next = afterDays.get(day);
+        const activities = diffLists(
+            previous?.activities.map(formatActivity) ?? [],
+            next?.activities.map(formatActivity) ?? []
+        );
+
+        if (!previous) return { day, status: 'added', location: { after: next?.location }, activities };
+        if (!next) return { day, status: 'removed', location: { before: previous.location }, activities };
+
+        const locationChanged = previous.location !== next.location;
+        const changed = locationChanged || activities.some((change) => change.type !== 'same');
+
+        return {
+            day,
+            status: changed ? 'changed' : 'unchanged',
+            location: locationChanged ? { before: previous.location, after: next.location } : undefined,
+            activities,
+        };
+    });
+
+    return { fields, days };
+}
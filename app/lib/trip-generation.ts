@@ -0,0 +1,259 @@
+import { parseMarkdownToJson } from "~/lib/utils";
+import { formatValidationIssues, validateDayPlan, validateTrip } from "~/lib/trip-schema";
+import type { LLMProvider } from "~/lib/llm";
+
+export const MAX_GENERATION_ATTEMPTS = 3;
+
+export class TripGenerationError extends Error {
+    issues: ValidationIssue[];
+
+    constructor(message: string, issues: ValidationIssue[]) {
+        super(message);
+        this.name = 'TripGenerationError';
+        this.issues = issues;
+    }
+}
+
+export const buildTripPrompt = ({
+    country, numberOfDays, travelStyle, interests, budget, groupType
+}: TripGenerationInput) => `Generate a ${numberOfDays}-day travel itinerary for ${country} based on the following user information:
+          Budget: '${budget}'
+          Interests: '${interests}'
+          TravelStyle: '${travelStyle}'
+          GroupType: '${groupType}'
+          Return the itinerary and lowest estimated price in a clean, non-markdown JSON format with the following structure:
+          {
+          "name": "A descriptive title for the trip",
+          "description": "A brief description of the trip and its highlights not exceeding 100 words",
+          "estimatedPrice": "Lowest average price for the trip in USD, e.g.$price",
+          "duration": ${numberOfDays},
+          "budget": "${budget}",
+          "travelStyle": "${travelStyle}",
+          "country": "${country}",
+          "interests": "${interests}",
+          "groupType": "${groupType}",
+          "bestTimeToVisit": [
+            "🌸 Season (from month to month): reason to visit",
+            "☀️ Season (from month to month): reason to visit",
+            "🍁 Season (from month to month): reason to visit",
+            "❄️ Season (from month to month): reason to visit"
+          ],
+          "weatherInfo": [
+            "☀️ Season: temperature range in Celsius (temperature range in Fahrenheit)",
+            "🌦️ Season: temperature range in Celsius (temperature range in Fahrenheit)",
+            "🌧️ Season: temperature range in Celsius (temperature range in Fahrenheit)",
+            "❄️ Season: temperature range in Celsius (temperature range in Fahrenheit)"
+          ],
+          "location": {
+            "city": "name of the city or region",
+            "coordinates": [latitude, longitude],
+            "openStreetMap": "link to open street map"
+          },
+          "itinerary": [
+          {
+            "day": 1,
+            "location": "City/Region Name",
+            "coordinates": [latitude, longitude],
+            "activities": [
+              {"time": "Morning", "description": "🏰 Visit the local historic castle and enjoy a scenic walk", "cost": {"category": "activities", "amount": 15}, "coordinates": [latitude, longitude]},
+              {"time": "Afternoon", "description": "🖼️ Explore a famous art museum with a guided tour", "cost": {"category": "activities", "amount": 25}, "coordinates": [latitude, longitude]},
+              {"time": "Evening", "description": "🍷 Dine at a rooftop restaurant with local wine", "cost": {"category": "food", "amount": 60}, "coordinates": [latitude, longitude]}
+            ],
+            "costs": [
+              {"category": "lodging", "amount": 120},
+              {"category": "transport", "amount": 20}
+            ]
+          },
+          ...
+          ]
+          }
+          Cost amounts are whole numbers in USD for the whole group. "category" is one of lodging, transport, food or activities.
+          Give each activity its own "cost" and put the day's lodging and transfers in "costs".
+          "coordinates" are the decimal latitude and longitude of the day's location and of each activity's venue.`;
+
+export const buildRepairPrompt = (originalPrompt: string, previousResponse: string, issues: ValidationIssue[]) =>
+    `${originalPrompt}
+
+Your previous response was:
+${previousResponse}
+
+It failed validation with the following errors:
+${formatValidationIssues(issues)}
+
+Return the complete corrected JSON object only, fixing every error listed above and keeping the same structure.`;
+
+/**
+ * Pulls every fully-closed day object out of a partially streamed response so
+ * the itinerary can be shown while the model is still writing the rest.
+ */
+export const extractCompletedDays = (text: string): DayPlan[] => {
+    const itineraryKey = text.indexOf('"itinerary"');
+    const arrayStart = itineraryKey === -1 ? -1 : text.indexOf('[', itineraryKey);
+    if (arrayStart === -1) return [];
+
+    const days: DayPlan[] = [];
+    let depth = 0;
+    let objectStart = -1;
+    let inString = false;
+
+    for (let i = arrayStart + 1; i < text.length; i++) {
+        const char = text[i];
+
+        if (inString) {
+            if (char === '\\') i++;
+            else if (char === '"') inString = false;
+            continue;
+        }
+
+        if (char === '"') inString = true;
+        else if (char === '{') {
+            if (depth === 0) objectStart = i;
+            depth++;
+        } else if (char === '}') {
+            depth--;
+            if (depth === 0 && objectStart !== -1) {
+                try {
+                    const result = validateDayPlan(JSON.parse(text.slice(objectStart, i + 1)));
+                    if (result.valid) days.push(result.dayPlan);
+                } catch {
+                    // Not a complete day yet; the next chunk will close it.
+                }
+                objectStart = -1;
+            }
+        } else if (char === ']' && depth === 0) break;
+    }
+
+    return days;
+};
+
+interface GenerateTripOptions {
+    signal?: AbortSignal;
+    onEvent?: (event: TripProgressEvent) => void;
+    maxAttempts?: number;
+}
+
+const requestText = async (
+    provider: LLMProvider,
+    prompt: string,
+    total: number,
+    { signal, onEvent }: GenerateTripOptions
+) => {
+    if (!provider.stream || !onEvent) return provider.generate(prompt, { signal });
+
+    let text = '';
+    let emitted = 0;
+
+    for await (const chunk of provider.stream(prompt, { signal })) {
+        text += chunk;
+        const days = extractCompletedDays(text);
+        days.slice(emitted).forEach((day) => onEvent({ type: 'day', day, total }));
+        emitted = Math.max(emitted, days.length);
+    }
+
+    return text;
+};
+
+type ValidationResult<T> = { valid: true; value: T } | { valid: false; issues: ValidationIssue[] };
+
+/**
+ * Requests output until it parses and validates, feeding the validation errors
+ * back to the model as a repair prompt between attempts.
+ */
+const generateWithRepair = async <T>(
+    request: (prompt: string) => Promise<string>,
+    basePrompt: string,
+    validate: (value: unknown) => ValidationResult<T>,
+    { label, maxAttempts, onAttempt }: { label: string; maxAttempts: number; onAttempt?: (attempt: number) => void }
+): Promise<T> => {
+    let prompt = basePrompt;
+    let issues: ValidationIssue[] = [];
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+        onAttempt?.(attempt);
+
+        const text = await request(prompt);
+        const parsed = text.trim() ? parseMarkdownToJson(text) : null;
+        const result: ValidationResult<T> = parsed === null
+            ? { valid: false, issues: [{ path: '', message: 'Response did not contain a valid JSON object' }] }
+            : validate(parsed);
+
+        if (result.valid) return result.value;
+
+        issues = result.issues;
+        console.warn(`${label} attempt ${attempt}/${maxAttempts} failed validation:\n${formatValidationIssues(issues)}`);
+        prompt = buildRepairPrompt(basePrompt, text, issues);
+    }
+
+    throw new TripGenerationError(`Generated ${label.toLowerCase()} failed validation after ${maxAttempts} attempts`, issues);
+};
+
+export const generateValidTrip = async (
+    provider: LLMProvider,
+    input: TripGenerationInput,
+    { signal, onEvent, maxAttempts = MAX_GENERATION_ATTEMPTS }: GenerateTripOptions = {}
+): Promise<GeneratedTrip> => generateWithRepair(
+    (prompt) => requestText(provider, prompt, input.numberOfDays, { signal, onEvent }),
+    buildTripPrompt(input),
+    (value) => {
+        const result = validateTrip(value, input.numberOfDays);
+        return result.valid ? { valid: true, value: result.trip } : result;
+    },
+    {
+        label: 'Trip',
+        maxAttempts,
+        onAttempt: (attempt) => onEvent?.(attempt === 1
+            ? { type: 'progress', stage: 'drafting', message: 'Drafting itinerary' }
+            : { type: 'progress', stage: 'repairing', message: `Repairing itinerary (attempt ${attempt} of ${maxAttempts})` }),
+    }
+);
+
+export const buildDayRegenerationPrompt = (trip: GeneratedTrip, dayNumber: number, instructions?: string) => {
+    const otherDays = trip.itinerary
+        .filter((dayPlan) => dayPlan.day !== dayNumber)
+        .map((dayPlan) => `Day ${dayPlan.day} (${dayPlan.location}): ${dayPlan.activities.map((activity) => activity.description).join('; ')}`)
+        .join('\n');
+
+    return `Regenerate day ${dayNumber} of a ${trip.duration}-day ${trip.travelStyle} trip to ${trip.country} called "${trip.name}".
+          Budget: '${trip.budget}'
+          Interests: '${trip.interests}'
+          GroupType: '${trip.groupType}'
+          The rest of the itinerary, which must stay as it is, is:
+${otherDays || '          (no other days)'}
+          Keep the new day consistent with the surrounding days and avoid repeating their activities.${instructions?.trim() ? `
+          Additional instructions from the trip editor: ${instructions.trim()}` : ''}
+          Return only the new day as a clean, non-markdown JSON object with the following structure:
+          {
+            "day": ${dayNumber},
+            "location": "City/Region Name",
+            "coordinates": [latitude, longitude],
+            "activities": [
+              {"time": "Morning", "description": "🏰 Visit the local historic castle and enjoy a scenic walk", "cost": {"category": "activities", "amount": 15}, "coordinates": [latitude, longitude]},
+              {"time": "Afternoon", "description": "🖼️ Explore a famous art museum with a guided tour", "cost": {"category": "activities", "amount": 25}, "coordinates": [latitude, longitude]},
+              {"time": "Evening", "description": "🍷 Dine at a rooftop restaurant with local wine", "cost": {"category": "food", "amount": 60}, "coordinates": [latitude, longitude]}
+            ],
+            "costs": [
+              {"category": "lodging", "amount": 120},
+              {"category": "transport", "amount": 20}
+            ]
+          }
+          Cost amounts are whole numbers in ${trip.price?.currency ?? 'USD'} for the whole group. "category" is one of lodging, transport, food or activities.
+          "coordinates" are the decimal latitude and longitude of the day's location and of each activity's venue.`;
+};
+
+export const generateValidDay = async (
+    provider: LLMProvider,
+    trip: GeneratedTrip,
+    dayNumber: number,
+    { instructions, signal, maxAttempts = MAX_GENERATION_ATTEMPTS }: { instructions?: string; signal?: AbortSignal; maxAttempts?: number } = {}
+): Promise<DayPlan> => generateWithRepair(
+    (prompt) => provider.generate(prompt, { signal }),
+    buildDayRegenerationPrompt(trip, dayNumber, instructions),
+    (value) => {
+        const result = validateDayPlan(value);
+        if (!result.valid) return result;
+        return result.dayPlan.day === dayNumber
+            ? { valid: true, value: result.dayPlan }
+            : { valid: false, issues: [{ path: 'day', message: `Expected ${dayNumber}, received ${result.dayPlan.day}` }] };
+    },
+    { label: 'Day', maxAttempts }
+);
@@ -0,0 +1,69 @@
+import { createJobQueue, NonRetryableJobError, type JobQueue } from "~/lib/job-queue";
+import { TripGenerationError } from "~/lib/trip-generation";
+import { runTripCreation } from "~/lib/trip-pipeline";
+
+interface TripJobPayload {
+    input: TripGenerationInput;
+    userId: string;
+}
+
+type TripJobQueue = JobQueue<TripJobPayload, { tripId: string }, TripJobProgress>;
+
+// An unset or malformed value falls back to the default instead of disabling retries.
+const readPositiveInteger = (value: string | undefined, fallback: number) => {
+    const parsed = Number(value);
+    return value?.trim() && Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+const createTripJobQueue = (): TripJobQueue => createJobQueue({
+    type: 'create-trip',
+    file: process.env.JOBS_FILE,
+    maxAttempts: readPositiveInteger(process.env.JOBS_MAX_ATTEMPTS, 3),
+    retentionMs: readPositiveInteger(process.env.JOBS_RETENTION_HOURS, 7 * 24) * 60 * 60 * 1000,
+    handler: async ({ input, userId }, { jobId, signal, reportProgress }) => {
+        let progress: TripJobProgress = { message: 'Queued', itinerary: [] };
+        const report = (next: Partial<TripJobProgress>) => {
+            progress = { ...progress, ...next };
+            reportProgress(progress);
+        };
+
+        try {
+            // The job id names the trip, so a retry can't save a second copy.
+            const tripId = await runTripCreation(input, userId, {
+                tripId: jobId,
+                signal,
+                onEvent: (event) => {
+                    if (event.type === 'progress') {
+                        report({ message: event.message, ...(event.stage === 'repairing' ? { itinerary: [] } : {}) });
+                    } else if (event.type === 'day') {
+                        report({ message: `Day ${event.day.day} of ${event.total}`, itinerary: [...progress.itinerary, event.day] });
+                    }
+                },
+            });
+            return { tripId };
+        } catch (e) {
+            // The generator already retried the model with repair prompts.
+            if (e instanceof TripGenerationError) throw new NonRetryableJobError(e.message, { cause: e });
+            throw e;
+        }
+    },
+    describeError: (e) => e instanceof Error && e.cause instanceof TripGenerationError
+        ? { issues: e.cause.issues }
+        : {},
+});
+
+// Keep one queue per server process, even when dev HMR re-evaluates this module.
+const globalForJobs = globalThis as typeof globalThis & { __tripJobQueue?: TripJobQueue };
+
+export const tripJobQueue = globalForJobs.__tripJobQueue ??= createTripJobQueue();
+
+export const toTripJobStatus = (job: JobRecord<TripJobPayload, { tripId: string }, TripJobProgress>): TripJobStatusResponse => ({
+    id: job.id,
+    status: job.status,
+    tripId: job.result?.tripId,
+    progress: job.progress,
+    error: job.error,
+    issues: job.issues,
+    attempts: job.attempts,
+    maxAttempts: job.maxAttempts,
+});
@@ -0,0 +1,81 @@
+import { Query } from "node-appwrite";
+import { collections, type TripDocument } from "~/appwrite/server.server";
+import { toGeneratedTrip, toTripAttributes } from "~/lib/trip-attributes";
+import { parseMoney } from "~/lib/money";
+
+const PAGE_SIZE = 100;
+
+export interface TripMigrationReport {
+    scanned: number;
+    migrated: number;
+    alreadyMigrated: number;
+    failed: { id: string; reason: string }[];
+}
+
+interface TripMigrationOptions {
+    dryRun?: boolean;
+    onProgress?: (report: TripMigrationReport) => void;
+}
+
+// Legacy JSON trips, and normalized trips written before prices were stored as `Money`.
+const needsMigration = (document: TripDocument) =>
+    Boolean(document.tripDetails) || (document.priceAmount == null && parseMoney(document.estimatedPrice ?? '') !== null);
+
+const readLegacyTrip = (tripDetails: string) => {
+    let trip: GeneratedTrip | null;
+    try {
+        trip = JSON.parse(tripDetails);
+    } catch (e) {
+        throw new Error(`tripDetails is not valid JSON (${e instanceof Error ? e.message : e})`);
+    }
+    if (!trip || typeof trip !== 'object' || !trip.name) throw new Error('tripDetails has no trip name');
+    return trip;
+}
+
+const migrateTrip = async (document: TripDocument, dryRun: boolean) => {
+    const trip = document.tripDetails ? readLegacyTrip(document.tripDetails) : toGeneratedTrip(document);
+    if (!trip) throw new Error('Document has no trip content');
+
+    if (!dryRun) {
+        await collections.trips.update(document.$id, toTripAttributes(trip));
+    }
+}
+
+/**
+ * Moves every trip still stored as a `tripDetails` JSON string onto the
+ * normalized attributes described in `~/lib/trip-attributes`, and fills in
+ * `priceAmount`/`priceCurrency` where they are missing. A migrated trip has no
+ * `tripDetails` left, so running it again only picks up what failed or was
+ * created by older code. Rows whose JSON doesn't parse are left untouched and
+ * listed in the report.
+ */
+export const migrateTrips = async ({ dryRun = false, onProgress }: TripMigrationOptions = {}) => {
+    const report: TripMigrationReport = { scanned: 0, migrated: 0, alreadyMigrated: 0, failed: [] };
+    let cursor: string | undefined;
+
+    // Paged by `$id` so documents leaving the unmigrated set don't shift the pages.
+    while (true) {
+        const { documents } = await collections.trips.list(
+            [Query.orderAsc('$id'), Query.limit(PAGE_SIZE), ...(cursor ? [Query.cursorAfter(cursor)] : [])]
+        );
+
+        for (const document of documents) {
+            report.scanned++;
+            if (!needsMigration(document)) {
+                report.alreadyMigrated++;
+                continue;
+            }
+
+            try {
+                await migrateTrip(document, dryRun);
+                report.migrated++;
+            } catch (e) {
+                report.failed.push({ id: document.$id, reason: e instanceof Error ? e.message : String(e) });
+            }
+        }
+
+        onProgress?.(report);
+        if (documents.length < PAGE_SIZE) return report;
+        cursor = documents[documents.length - 1].$id;
+    }
+}
@@ -0,0 +1,227 @@
+import { AppwriteException, ID } from "node-appwrite";
+import { collections, serverConfig, serverDatabases } from "~/appwrite/server.server";
+import { syncItineraryCount } from "~/lib/itinerary-counts";
+import { getLLMProvider } from "~/lib/llm";
+import { generateValidDay, generateValidTrip } from "~/lib/trip-generation";
+import { createTripRevisionStore, toTripRevision } from "~/lib/trip-revisions";
+import { createProduct, isStripeConfigured } from "~/lib/stripe";
+import { convertPrice } from "~/lib/exchange-rates";
+import { geocodeDay, geocodeItinerary } from "~/lib/geocoding";
+import { getTripPrice, toGeneratedTrip, toTripAttributes } from "~/lib/trip-attributes";
+import { validateTrip } from "~/lib/trip-schema";
+
+const tripRevisions = createTripRevisionStore(serverDatabases, serverConfig);
+
+export const getTripRevisions = async (tripId: string) => {
+    try {
+        return await tripRevisions.list(tripId);
+    } catch (e) {
+        console.error('Error fetching trip revisions:', e);
+        return [];
+    }
+}
+
+interface TripCreationOptions {
+    /** Document id for the new trip; an existing trip with this id is returned as is. */
+    tripId?: string;
+    signal?: AbortSignal;
+    onEvent?: (event: TripProgressEvent) => void;
+}
+
+const searchTripImages = async (query: string, signal?: AbortSignal): Promise<string[]> => {
+    const unsplashApiKey = process.env.UNSPLASH_ACCESS_KEY;
+    if (!unsplashApiKey) return [];
+
+    try {
+        const imageResponse = await fetch(
+            `https://api.unsplash.com/search/photos?query=${encodeURIComponent(query)}&client_id=${unsplashApiKey}`,
+            { signal }
+        );
+
+        if (!imageResponse.ok) {
+            console.error('Unsplash API error:', imageResponse.status);
+            return [];
+        }
+
+        const imageData = await imageResponse.json();
+        return imageData.results?.slice(0,3).map((result:any) => result.urls?.regular || null) || [];
+    } catch (e) {
+        signal?.throwIfAborted();
+        console.error('Unsplash request failed:', e);
+        return [];
+    }
+}
+
+const isNotFound = (e: unknown) => e instanceof AppwriteException && e.code === 404;
+
+const tripExists = async (tripId: string) => {
+    try {
+        await collections.trips.get(tripId);
+        return true;
+    } catch (e) {
+        if (isNotFound(e)) return false;
+        throw e;
+    }
+}
+
+/**
+ * Generates, illustrates and stores a trip, reporting each stage through `onEvent`.
+ * Resolves with the new trip document id. Only generating and saving can fail:
+ * the steps after the trip is saved log their errors instead.
+ */
+export const runTripCreation = async (
+    input: TripGenerationInput,
+    userId: string,
+    { tripId, signal, onEvent }: TripCreationOptions = {}
+) => {
+    if (tripId && await tripExists(tripId)) return tripId;
+
+    const generated = await generateValidTrip(getLLMProvider(), input, { signal, onEvent });
+
+    onEvent?.({ type: 'progress', stage: 'geocoding', message: 'Locating itinerary stops' });
+    const trip = await geocodeItinerary(generated, { signal });
+
+    onEvent?.({ type: 'progress', stage: 'fetching-images', message: 'Fetching images' });
+    const imageUrls = await searchTripImages(`${input.country} ${input.interests} ${input.travelStyle}`, signal);
+
+    signal?.throwIfAborted();
+    onEvent?.({ type: 'progress', stage: 'saving', message: 'Saving trip' });
+
+    const result = await collections.trips.create(tripId ?? ID.unique(), {
+        ...toTripAttributes(trip),
+        createdAt: new Date().toISOString(),
+        imageUrls,
+        userId,
+    })
+
+    // Without it, the first edit stores the trip as its original revision instead.
+    try {
+        await tripRevisions.record(result.$id, { tripDetails: JSON.stringify(trip), source: 'ai', summary: 'Generated trip', author: { id: userId } });
+    } catch (e) {
+        console.error('Failed to record the first revision:', e instanceof Error ? e.message : e);
+    }
+
+    // The trip is saved either way; readers fall back to counting when the stored figure is missing.
+    try {
+        await syncItineraryCount(userId);
+    } catch (e) {
+        console.error('Failed to update itinerary count:', e instanceof Error ? e.message : e);
+    }
+
+    // A missing payment link can be created later from the trip detail page.
+    if (isStripeConfigured()) {
+        try {
+            await publishTripPaymentLink(result.$id);
+        } catch (e) {
+            console.error('Failed to create payment link:', e instanceof Error ? e.message : e);
+        }
+    }
+
+    return result.$id;
+}
+
+export class TripNotFoundError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'TripNotFoundError';
+    }
+}
+
+export class TripPublishError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'TripPublishError';
+    }
+}
+
+/**
+ * Creates the Stripe product, price and payment link for a trip from its price
+ * and stores the link on the trip document. Pass `currency` to charge in another
+ * currency than the trip's own, converted at the current exchange rate.
+ */
+export const publishTripPaymentLink = async (tripId: string, currency?: string) => {
+    if (!isStripeConfigured()) throw new TripPublishError('Stripe is not configured');
+
+    const document = await collections.trips.get(tripId);
+    const trip = toGeneratedTrip(document);
+    if (!trip) throw new TripNotFoundError(`Trip ${tripId} has no readable details`);
+
+    const tripPrice = getTripPrice(trip);
+    if (!tripPrice) throw new TripPublishError(`Cannot read a price from "${trip.estimatedPrice}"`);
+
+    const price = currency ? await convertPrice(tripPrice, currency) : tripPrice;
+    if (!price) throw new TripPublishError(`No exchange rate available for ${currency}`);
+
+    const paymentLink = await createProduct(
+        trip.name,
+        trip.description,
+        (document.imageUrls ?? []).slice(0, 8),
+        price,
+        tripId
+    );
+
+    await collections.trips.update(tripId, { payment_link: paymentLink.url });
+
+    return paymentLink.url;
+}
+
+/**
+ * Re-prompts the model for one itinerary day, using the rest of the trip as
+ * context, and replaces only that entry in the stored itinerary.
+ */
+export const regenerateTripDay = async (
+    tripId: string,
+    dayNumber: number,
+    { instructions, signal, author }: { instructions?: string; signal?: AbortSignal; author: RevisionAuthor }
+) => {
+    const document = await collections.trips.get(tripId);
+    const trip = toGeneratedTrip(document);
+    const index = trip?.itinerary?.findIndex((dayPlan) => dayPlan.day === dayNumber) ?? -1;
+
+    if (!trip || index === -1) throw new TripNotFoundError(`Day ${dayNumber} not found on trip ${tripId}`);
+
+    const generated = await generateValidDay(getLLMProvider(), trip, dayNumber, { instructions, signal });
+    const dayPlan = await geocodeDay(generated, trip.country, { signal });
+    const itinerary = trip.itinerary.map((existing, i) => i === index ? dayPlan : existing);
+
+    await tripRevisions.saveTripDetails(tripId, {
+        tripDetails: JSON.stringify({ ...trip, itinerary }),
+        source: 'ai',
+        summary: instructions ? `Regenerated day ${dayNumber}: ${instructions}` : `Regenerated day ${dayNumber}`,
+        author,
+    });
+
+    return dayPlan;
+}
+
+/**
+ * Validates an edited trip against the `Trip` schema, locates days the editor
+ * moved, and writes it back to the trip document as a manual revision. Nothing
+ * is written when validation fails.
+ */
+export const saveTripEdit = async (tripId: string, trip: GeneratedTrip, author: RevisionAuthor) => {
+    const result = validateTrip(trip, trip.itinerary?.length);
+    if (!result.valid) return { saved: false, issues: result.issues };
+
+    await tripRevisions.saveTripDetails(tripId, {
+        tripDetails: JSON.stringify(await geocodeItinerary(result.trip)),
+        source: 'manual',
+        summary: 'Edited trip',
+        author,
+    });
+    return { saved: true, issues: [] };
+}
+
+/** Restores a trip to one of its revisions, recorded as a new manual revision by `author`. */
+export const rollbackTrip = async (tripId: string, revisionId: string, author: RevisionAuthor) => {
+    const revision = toTripRevision(await collections.tripRevisions.get(revisionId));
+    if (revision.tripId !== tripId) throw new TripNotFoundError(`Revision ${revisionId} not found on trip ${tripId}`);
+
+    await tripRevisions.saveTripDetails(tripId, {
+        tripDetails: revision.tripDetails,
+        source: 'manual',
+        summary: `Rolled back to "${revision.summary}" from ${new Date(revision.createdAt).toLocaleString()}`,
+        author,
+    });
+    return revision;
+}
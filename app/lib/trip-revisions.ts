@@ -0,0 +1,106 @@
+import { ID, Query, type Models } from "appwrite";
+import { serializeTrip, tripAttributesFromDetails } from "~/lib/trip-attributes";
+
+interface RevisionStoreConfig {
+    databaseId: string;
+    tripsCollectionId: string;
+    tripRevisionsCollectionId: string;
+}
+
+/** The document calls the store makes, which both the browser and the server SDK's `Databases` provide. */
+interface RevisionDatabases {
+    listDocuments(databaseId: string, collectionId: string, queries?: string[]): Promise<{ total: number; documents: Models.Document[] }>;
+    getDocument(databaseId: string, collectionId: string, documentId: string): Promise<Models.Document>;
+    createDocument(databaseId: string, collectionId: string, documentId: string, data: object): Promise<Models.Document>;
+    updateDocument(databaseId: string, collectionId: string, documentId: string, data: object): Promise<Models.Document>;
+}
+
+interface RevisionInput {
+    tripDetails: string;
+    source: RevisionSource;
+    summary: string;
+    author: RevisionAuthor;
+}
+
+export const toTripRevision = (document: Models.Document): TripRevision => ({
+    id: document.$id,
+    tripId: document.tripId,
+    tripDetails: document.tripDetails,
+    source: document.source,
+    summary: document.summary,
+    authorId: document.authorId,
+    authorName: document.authorName ?? null,
+    createdAt: document.createdAt,
+});
+
+/**
+ * Revision history for trip documents. Every write to a trip's content goes
+ * through `saveTripDetails`, which appends a revision so earlier versions,
+ * including the original AI output, can be compared and restored. Revisions
+ * keep each version as a `tripDetails` JSON snapshot. The revisions collection
+ * holds `tripId`, `tripDetails`, `source`, `summary`, `authorId`, `authorName`
+ * and `createdAt`, with an index on `tripId`.
+ */
+export const createTripRevisionStore = (databases: RevisionDatabases, config: RevisionStoreConfig) => {
+    const record = async (tripId: string, { tripDetails, source, summary, author }: RevisionInput) => {
+        const document = await databases.createDocument(
+            config.databaseId,
+            config.tripRevisionsCollectionId,
+            ID.unique(),
+            {
+                tripId,
+                tripDetails,
+                source,
+                summary,
+                authorId: author.id,
+                authorName: author.name ?? null,
+                createdAt: new Date().toISOString(),
+            }
+        );
+        return toTripRevision(document);
+    };
+
+    const list = async (tripId: string) => {
+        const { documents } = await databases.listDocuments(
+            config.databaseId,
+            config.tripRevisionsCollectionId,
+            [Query.equal('tripId', tripId), Query.orderDesc('createdAt'), Query.limit(100)]
+        );
+        return documents.map(toTripRevision);
+    };
+
+    // Trips created before revisions existed get their current content stored
+    // as the first revision before it is overwritten.
+    const ensureBaseline = async (trip: Models.Document) => {
+        const { total } = await databases.listDocuments(
+            config.databaseId,
+            config.tripRevisionsCollectionId,
+            [Query.equal('tripId', trip.$id), Query.limit(1)]
+        );
+        const tripDetails = serializeTrip(trip);
+        if (total > 0 || !tripDetails) return;
+
+        await record(trip.$id, {
+            tripDetails,
+            source: 'ai',
+            summary: 'Original version',
+            author: { id: trip.userId },
+        });
+    };
+
+    const saveTripDetails = async (tripId: string, revision: RevisionInput) => {
+        const current = await databases.getDocument(config.databaseId, config.tripsCollectionId, tripId);
+        await ensureBaseline(current);
+
+        const updated = await databases.updateDocument(
+            config.databaseId,
+            config.tripsCollectionId,
+            tripId,
+            tripAttributesFromDetails(revision.tripDetails)
+        );
+        await record(tripId, revision);
+        return updated;
+    };
+
+    return { record, list, saveTripDetails };
+};
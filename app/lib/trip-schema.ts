@@ -0,0 +1,156 @@
+import { parseMoney } from "~/lib/money";
+import { COST_CATEGORIES } from "~/lib/trip-costs";
+
+type Schema = ((value: unknown, path: string) => ValidationIssue[]) & { optional?: boolean };
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const describe = (value: unknown) =>
+    value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+
+const string = (): Schema => (value, path) => {
+    if (typeof value !== 'string') return [{ path, message: `Expected string, received ${describe(value)}` }];
+    if (!value.trim()) return [{ path, message: 'Expected a non-empty string' }];
+    return [];
+};
+
+const number = ({ integer = false, min, max }: { integer?: boolean; min?: number; max?: number } = {}): Schema =>
+    (value, path) => {
+        if (typeof value !== 'number' || Number.isNaN(value)) {
+            return [{ path, message: `Expected number, received ${describe(value)}` }];
+        }
+        if (integer && !Number.isInteger(value)) return [{ path, message: 'Expected an integer' }];
+        if (min !== undefined && value < min) return [{ path, message: `Expected a value >= ${min}` }];
+        if (max !== undefined && value > max) return [{ path, message: `Expected a value <= ${max}` }];
+        return [];
+    };
+
+const price = (): Schema => (value, path) => {
+    const issues = string()(value, path);
+    if (issues.length > 0) return issues;
+    return parseMoney(value as string) ? [] : [{ path, message: 'Expected a price such as "$1,200"' }];
+};
+
+const oneOf = (options: readonly string[]): Schema => (value, path) =>
+    typeof value === 'string' && options.includes(value)
+        ? []
+        : [{ path, message: `Expected one of ${options.join(', ')}, received ${JSON.stringify(value)}` }];
+
+/** Lets an `object` key be left out; when present it still has to match. */
+const optional = (schema: Schema): Schema =>
+    Object.assign((value: unknown, path: string) => value === undefined ? [] : schema(value, path), { optional: true });
+
+const array = (item: Schema, { minLength = 0 }: { minLength?: number } = {}): Schema => (value, path) => {
+    if (!Array.isArray(value)) return [{ path, message: `Expected array, received ${describe(value)}` }];
+    if (value.length < minLength) {
+        return [{ path, message: `Expected at least ${minLength} item${minLength === 1 ? '' : 's'}` }];
+    }
+    return value.flatMap((entry, i) => item(entry, `${path}[${i}]`));
+};
+
+const tuple = (...items: Schema[]): Schema => (value, path) => {
+    if (!Array.isArray(value)) return [{ path, message: `Expected array, received ${describe(value)}` }];
+    if (value.length !== items.length) return [{ path, message: `Expected exactly ${items.length} items` }];
+    return items.flatMap((item, i) => item(value[i], `${path}[${i}]`));
+};
+
+const object = (shape: Record<string, Schema>): Schema => (value, path) => {
+    if (!isRecord(value)) return [{ path, message: `Expected object, received ${describe(value)}` }];
+    return Object.entries(shape).flatMap(([key, schema]) =>
+        key in value || schema.optional
+            ? schema(value[key], path ? `${path}.${key}` : key)
+            : [{ path: path ? `${path}.${key}` : key, message: 'Required field is missing' }]
+    );
+};
+
+const coordinatesSchema = tuple(number({ min: -90, max: 90 }), number({ min: -180, max: 180 }));
+
+const costSchema = object({
+    category: oneOf(COST_CATEGORIES),
+    amount: number({ min: 0 }),
+});
+
+const activitySchema = object({
+    time: string(),
+    description: string(),
+    cost: optional(costSchema),
+    coordinates: optional(coordinatesSchema),
+});
+
+const dayPlanSchema = object({
+    day: number({ integer: true, min: 1 }),
+    location: string(),
+    activities: array(activitySchema, { minLength: 1 }),
+    costs: optional(array(costSchema)),
+    coordinates: optional(coordinatesSchema),
+});
+
+const locationSchema = object({
+    city: string(),
+    coordinates: coordinatesSchema,
+    openStreetMap: string(),
+});
+
+const tripSchema = object({
+    name: string(),
+    description: string(),
+    estimatedPrice: price(),
+    duration: number({ integer: true, min: 1 }),
+    budget: string(),
+    travelStyle: string(),
+    interests: string(),
+    groupType: string(),
+    country: string(),
+    bestTimeToVisit: array(string(), { minLength: 1 }),
+    weatherInfo: array(string(), { minLength: 1 }),
+    location: locationSchema,
+    itinerary: array(dayPlanSchema, { minLength: 1 }),
+});
+
+export type TripValidationResult =
+    | { valid: true; trip: GeneratedTrip }
+    | { valid: false; issues: ValidationIssue[] };
+
+/**
+ * Checks a parsed model response against the `Trip` shape. When `expectedDuration`
+ * is given, the itinerary must also contain exactly that many days numbered 1..n.
+ * A valid trip comes back with `estimatedPrice` parsed into `price`.
+ */
+export const validateTrip = (value: unknown, expectedDuration?: number): TripValidationResult => {
+    const issues = tripSchema(value, '');
+
+    if (issues.length === 0 && expectedDuration !== undefined) {
+        const trip = value as GeneratedTrip;
+
+        if (trip.duration !== expectedDuration) {
+            issues.push({ path: 'duration', message: `Expected ${expectedDuration}, received ${trip.duration}` });
+        }
+        if (trip.itinerary.length !== expectedDuration) {
+            issues.push({
+                path: 'itinerary',
+                message: `Expected ${expectedDuration} days, received ${trip.itinerary.length}`,
+            });
+        }
+        trip.itinerary.forEach((dayPlan, i) => {
+            if (dayPlan.day !== i + 1) {
+                issues.push({ path: `itinerary[${i}].day`, message: `Expected day ${i + 1}, received ${dayPlan.day}` });
+            }
+        });
+    }
+
+    if (issues.length > 0) return { valid: false, issues };
+
+    const trip = value as GeneratedTrip;
+    return { valid: true, trip: { ...trip, price: parseMoney(trip.estimatedPrice)! } };
+};
+
+export const validateDayPlan = (value: unknown): { valid: true; dayPlan: DayPlan } | { valid: false; issues: ValidationIssue[] } => {
+    const issues = dayPlanSchema(value, '');
+    return issues.length === 0
+        ? { valid: true, dayPlan: value as DayPlan }
+        : { valid: false, issues };
+};
+
+export const formatValidationIssues = (issues: ValidationIssue[]) =>
+    issues.map(({ path, message }) => `- ${path || '(root)'}: ${message}`).join('\n');
@@ -0,0 +1,245 @@
+import { AppwriteException, IndexType, Query, type Models } from "node-appwrite";
+import { collections, serverConfig, serverDatabases, serverUsers, type UserDocument } from "~/appwrite/server.server";
+import { AuthorizationError } from "~/lib/api-auth";
+import { syncItineraryCount } from "~/lib/itinerary-counts";
+import { getUserByAccountId } from "~/lib/session";
+
+const PAGE_SIZE = 100;
+
+// Profiles store emails normalized, so lookups and the unique index ignore case.
+const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+const findUserByEmail = async (email: string) => {
+    const { documents } = await collections.users.list([Query.equal('email', normalizeEmail(email)), Query.orderAsc('joinedAt'), Query.limit(1)]);
+    return documents[0] ?? null;
+}
+
+const isConflict = (e: unknown) => e instanceof AppwriteException && e.code === 409;
+
+const hasVerifiedEmail = async (accountId: string) => {
+    try {
+        return (await serverUsers.get(accountId)).emailVerification;
+    } catch (e) {
+        if (e instanceof AppwriteException && e.code === 404) return false;
+        throw e;
+    }
+}
+
+const LINK_ATTEMPTS = 5;
+const LINK_SETTLE_MS = 250;
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Appwrite can't append to an array atomically, so two accounts linking at once
+// can overwrite each other's write. Each attempt re-reads the profile, adds the
+// link only if it is missing, and reads it back after a pause until it stays.
+const addLinkedAccount = async (profileId: string, accountId: string) => {
+    for (let attempt = 1; attempt <= LINK_ATTEMPTS; attempt++) {
+        const linkedAccountIds = (await collections.users.get(profileId)).linkedAccountIds ?? [];
+        if (!linkedAccountIds.includes(accountId)) {
+            await collections.users.update(profileId, { linkedAccountIds: [...linkedAccountIds, accountId] });
+        }
+
+        await wait(LINK_SETTLE_MS * attempt);
+        const settled = await collections.users.get(profileId);
+        if (settled.linkedAccountIds?.includes(accountId)) return settled;
+    }
+
+    throw new Error(`Could not link account ${accountId} to profile ${profileId}`);
+}
+
+// Both sides must have proven the address: a profile created by an account that
+// never verified its email could belong to someone who only typed it in.
+const linkToProfile = async (account: Models.User<Models.Preferences>, owner: UserDocument) => {
+    if (!await hasVerifiedEmail(owner.accountId)) {
+        throw new AuthorizationError('This email already belongs to an account. Sign in the way you did before.', 409);
+    }
+    return addLinkedAccount(owner.$id, account.$id);
+}
+
+/**
+ * Returns the user document of a signed-in Appwrite account, creating it on the
+ * first sign-in. Only accounts with a verified email get a profile. An account
+ * whose email already has a profile, such as the same person signing in through
+ * another provider, is linked to that profile instead. The document id is the
+ * account id and emails are unique (see `ensureUserIndexes`), so sign-ins racing
+ * each other end up with one profile too.
+ */
+export const ensureUserProfile = async (account: Models.User<Models.Preferences>, { imageUrl }: { imageUrl?: string | null } = {}) => {
+    const existing = await getUserByAccountId(account.$id);
+    if (existing) return existing;
+
+    if (!account.emailVerification) {
+        throw new AuthorizationError('Confirm your email address before signing in.', 412);
+    }
+
+    const owner = await findUserByEmail(account.email);
+    if (owner) return linkToProfile(account, owner);
+
+    try {
+        return await collections.users.create(account.$id, {
+            accountId: account.$id,
+            email: normalizeEmail(account.email),
+            // Email sign-ups can skip the name, so fall back to the address.
+            name: account.name || account.email.split('@')[0],
+            imageUrl: imageUrl ?? null,
+            joinedAt: new Date().toISOString(),
+            status: 'user',
+        });
+    } catch (e) {
+        if (!isConflict(e)) throw e;
+
+        // Another tab of this account, or another account with this email, got there first.
+        const created = await getUserByAccountId(account.$id);
+        if (created) return created;
+        const racedOwner = await findUserByEmail(account.email);
+        if (racedOwner) return linkToProfile(account, racedOwner);
+        throw e;
+    }
+}
+
+const USER_INDEXES = [
+    { key: 'unique_account', attributes: ['accountId'] },
+    { key: 'unique_email', attributes: ['email'] },
+];
+
+// Profiles created before emails were normalized still hold them as typed.
+const normalizeStoredEmails = async () => {
+    let normalized = 0;
+
+    for (const user of await listAllUsers()) {
+        if (!user.email || user.email === normalizeEmail(user.email)) continue;
+        await collections.users.update(user.$id, { email: normalizeEmail(user.email) });
+        normalized++;
+    }
+
+    return normalized;
+}
+
+/**
+ * Normalizes the stored emails, then creates the unique indexes on the users
+ * collection's `accountId` and `email`, skipping ones that already exist.
+ * Appwrite refuses them while duplicates remain, so merge those first from the
+ * user list.
+ */
+export const ensureUserIndexes = async () => {
+    const normalizedEmails = await normalizeStoredEmails();
+    const created: string[] = [];
+
+    for (const { key, attributes } of USER_INDEXES) {
+        try {
+            await serverDatabases.createIndex(serverConfig.databaseId, serverConfig.usersCollectionId, key, IndexType.Unique, attributes);
+            created.push(key);
+        } catch (e) {
+            if (!isConflict(e)) throw e;
+        }
+    }
+
+    return { normalizedEmails, created };
+}
+
+const listAllUsers = async () => {
+    const users: UserDocument[] = [];
+
+    while (true) {
+        const cursor = users.at(-1)?.$id;
+        const { documents } = await collections.users.list([
+            Query.limit(PAGE_SIZE),
+            ...(cursor ? [Query.cursorAfter(cursor)] : []),
+        ]);
+        users.push(...documents);
+        if (documents.length < PAGE_SIZE) return users;
+    }
+}
+
+const toDuplicateUser = ({ $id, accountId, name, email, imageUrl, joinedAt, status, suspended, itineraryCount }: UserDocument): DuplicateUser =>
+    ({ $id, accountId, name, email, imageUrl, joinedAt, status, suspended, itineraryCount });
+
+/**
+ * Groups user documents that belong to the same person: documents sharing an
+ * account id, linked account or email (ignoring case) end up in one group,
+ * transitively. Only groups of two or more are returned.
+ */
+export const findDuplicateUsers = async (): Promise<DuplicateUserGroup[]> => {
+    const users = await listAllUsers();
+    const parent = new Map(users.map((user) => [user.$id, user.$id]));
+    const find = (id: string): string => parent.get(id) === id ? id : find(parent.get(id)!);
+    const firstWithKey = new Map<string, string>();
+
+    for (const user of users) {
+        const keys = [user.accountId, ...(user.linkedAccountIds ?? [])].map((id) => `account:${id}`);
+        if (user.email) keys.push(`email:${normalizeEmail(user.email)}`);
+
+        for (const key of keys) {
+            const other = firstWithKey.get(key);
+            if (other) parent.set(find(user.$id), find(other));
+            else firstWithKey.set(key, user.$id);
+        }
+    }
+
+    const groups = new Map<string, UserDocument[]>();
+    for (const user of users) {
+        const root = find(user.$id);
+        groups.set(root, [...(groups.get(root) ?? []), user]);
+    }
+
+    return [...groups.values()]
+        .filter((group) => group.length > 1)
+        .map((group) => ({
+            users: group.sort((a, b) => a.joinedAt.localeCompare(b.joinedAt)).map(toDuplicateUser),
+        }));
+}
+
+interface OwnedCollection {
+    list: (queries: string[]) => Promise<{ documents: { $id: string }[] }>;
+    update: (documentId: string, data: { userId: string }) => Promise<unknown>;
+}
+
+const reassignDocuments = async (collection: OwnedCollection, fromAccountId: string, toAccountId: string) => {
+    let moved = 0;
+
+    // Always read the first page: moved documents no longer match.
+    while (true) {
+        const { documents } = await collection.list(
+            [Query.equal('userId', fromAccountId), Query.select(['$id']), Query.limit(PAGE_SIZE)]
+        );
+        if (documents.length === 0) return moved;
+
+        await Promise.all(documents.map((document) => collection.update(document.$id, { userId: toAccountId })));
+        moved += documents.length;
+    }
+}
+
+/**
+ * Folds duplicate user documents into `primaryId`: their trips and bookings
+ * move to the primary account, their accounts are linked to it so they keep
+ * signing in, and the duplicates are deleted. The merged profile is an admin
+ * if any of them was, and stays suspended if any of them was.
+ */
+export const mergeUsers = async (primaryId: string, duplicateIds: string[]) => {
+    const ids = [...new Set(duplicateIds)].filter((id) => id !== primaryId);
+    const [primary, ...duplicates] = await Promise.all([primaryId, ...ids].map((id) => collections.users.get(id)));
+    const all = [primary, ...duplicates];
+
+    let movedTrips = 0;
+    for (const duplicate of duplicates) {
+        if (duplicate.accountId === primary.accountId) continue;
+        movedTrips += await reassignDocuments(collections.trips, duplicate.accountId, primary.accountId);
+        await reassignDocuments(collections.bookings, duplicate.accountId, primary.accountId);
+    }
+
+    const linkedAccountIds = new Set(all.flatMap((user) => [user.accountId, ...(user.linkedAccountIds ?? [])]));
+    linkedAccountIds.delete(primary.accountId);
+
+    // Link first, so the duplicates' accounts never sign in to no profile at all.
+    await collections.users.update(primary.$id, {
+        linkedAccountIds: [...linkedAccountIds],
+        status: all.some((user) => user.status === 'admin') ? 'admin' : primary.status,
+        suspended: all.some((user) => user.suspended),
+        imageUrl: primary.imageUrl ?? duplicates.find((user) => user.imageUrl)?.imageUrl ?? null,
+    });
+    await Promise.all(duplicates.map((user) => collections.users.delete(user.$id)));
+    await syncItineraryCount(primary.accountId);
+
+    return { user: await collections.users.get(primary.$id), mergedUsers: duplicates.length, movedTrips };
+}
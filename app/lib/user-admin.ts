@@ -0,0 +1,134 @@
+import { AppwriteException, Query } from "node-appwrite";
+import { collections, serverUsers, type UserDocument } from "~/appwrite/server.server";
+import { AuthorizationError } from "~/lib/api-auth";
+import { SEAT_HOLDING_STATUSES } from "~/lib/bookings";
+
+export const USER_ADMIN_ACTIONS: UserAdminAction[] = ['promote', 'demote', 'suspend', 'reactivate', 'delete'];
+
+const toUserQueries = ({ search, status, joinedFrom, joinedTo, sort = 'joinedAt', order = 'desc' }: UserListOptions) => {
+    const queries: string[] = [];
+    const term = search?.trim();
+
+    if (term) queries.push(Query.or([Query.contains('name', term), Query.contains('email', term)]));
+    if (status === 'suspended') queries.push(Query.equal('suspended', true));
+    // The role filters list active accounts only; suspended ones have their own filter.
+    else if (status) queries.push(Query.equal('status', status), Query.or([Query.equal('suspended', false), Query.isNull('suspended')]));
+    if (joinedFrom) queries.push(Query.greaterThanEqual('joinedAt', joinedFrom));
+    if (joinedTo) queries.push(Query.lessThan('joinedAt', joinedTo));
+
+    queries.push(order === 'asc' ? Query.orderAsc(sort) : Query.orderDesc(sort));
+    return queries;
+}
+
+/** A filtered, sorted page of user documents for the admin user list. */
+export const listUsers = async (limit: number, offset: number, options: UserListOptions = {}) => {
+    const { documents: users, total } = await collections.users.list(
+        [...toUserQueries(options), Query.limit(limit), Query.offset(offset)]
+    );
+    return { users, total };
+}
+
+const PAGE_SIZE = 100;
+
+interface DeletableCollection {
+    list: (queries: string[]) => Promise<{ documents: { $id: string }[] }>;
+    delete: (documentId: string) => Promise<unknown>;
+}
+
+const deleteMatching = async (collection: DeletableCollection, queries: string[]) => {
+    let deleted = 0;
+
+    // Always read the first page: the previous page is gone once it is deleted.
+    while (true) {
+        const { documents } = await collection.list([...queries, Query.select(['$id']), Query.limit(PAGE_SIZE)]);
+        if (documents.length === 0) return deleted;
+
+        await Promise.all(documents.map((document) => collection.delete(document.$id)));
+        deleted += documents.length;
+    }
+}
+
+const listTripIdsOf = async (accountId: string) => {
+    const tripIds: string[] = [];
+
+    while (true) {
+        const cursor = tripIds.at(-1);
+        const { documents } = await collections.trips.list([
+            Query.equal('userId', accountId),
+            Query.select(['$id']),
+            Query.limit(PAGE_SIZE),
+            ...(cursor ? [Query.cursorAfter(cursor)] : []),
+        ]);
+        tripIds.push(...documents.map((trip) => trip.$id));
+        if (documents.length < PAGE_SIZE) return tripIds;
+    }
+}
+
+const chunk = <T>(items: T[], size: number) =>
+    Array.from({ length: Math.ceil(items.length / size) }, (_, i) => items.slice(i * size, (i + 1) * size));
+
+// Deleting a trip with paid or pending bookings would strand the travelers who
+// paid for it, or whose checkout is still open, so those have to be settled first.
+const assertNoHeldBookings = async (tripIds: string[]) => {
+    for (const ids of chunk(tripIds, PAGE_SIZE)) {
+        const { total } = await collections.bookings.list(
+            [Query.equal('tripId', ids), Query.equal('status', SEAT_HOLDING_STATUSES), Query.limit(1)]
+        );
+        if (total > 0) {
+            throw new AuthorizationError('This user\'s trips have paid or pending bookings. Refund or cancel them before deleting the user.', 409);
+        }
+    }
+}
+
+/** Deletes a user's trips with their bookings and revisions. */
+const deleteTripsOf = async (tripIds: string[]) => {
+    for (const ids of chunk(tripIds, PAGE_SIZE)) {
+        await deleteMatching(collections.bookings, [Query.equal('tripId', ids)]);
+        await deleteMatching(collections.tripRevisions, [Query.equal('tripId', ids)]);
+        await Promise.all(ids.map((tripId) => collections.trips.delete(tripId)));
+    }
+    return tripIds.length;
+}
+
+// An account removed in the Appwrite console already is fine.
+const deleteAccount = async (accountId: string) => {
+    try {
+        await serverUsers.delete(accountId);
+    } catch (e) {
+        if (!(e instanceof AppwriteException && e.code === 404)) throw e;
+    }
+}
+
+/**
+ * Applies an admin action to a user document. Admins cannot act on themselves,
+ * so the last admin can't lock everyone out. Deleting removes the user document,
+ * their trips with the trips' bookings and revisions, and their Appwrite
+ * accounts, linked ones included. It is refused while any of those trips has
+ * paid or pending bookings.
+ */
+export const applyUserAdminAction = async (admin: UserDocument, userId: string, action: UserAdminAction) => {
+    const user = await collections.users.get(userId);
+    if (user.$id === admin.$id) throw new AuthorizationError('You cannot change your own account', 403);
+
+    const update = (data: Partial<Pick<UserDocument, 'status' | 'suspended'>>) => collections.users.update(userId, data);
+
+    switch (action) {
+        case 'promote':
+            return { user: await update({ status: 'admin' }) };
+        case 'demote':
+            return { user: await update({ status: 'user' }) };
+        case 'suspend':
+            return { user: await update({ suspended: true }) };
+        case 'reactivate':
+            return { user: await update({ suspended: false }) };
+        case 'delete': {
+            const tripIds = await listTripIdsOf(user.accountId);
+            await assertNoHeldBookings(tripIds);
+
+            const deletedTrips = await deleteTripsOf(tripIds);
+            await collections.users.delete(userId);
+            await Promise.all([user.accountId, ...(user.linkedAccountIds ?? [])].map(deleteAccount));
+            return { user: null, deletedTrips };
+        }
+    }
+}
@@ -11,12 +11,18 @@ export const formatDate = (dateString: string): string => {
 };
 
 export function parseMarkdownToJson(markdownText: string): unknown | null {
-  const regex = /```json\n([\s\S]+?)\n```/;
+  const regex = /```(?:json)?\s*\n([\s\S]+?)\n\s*```/;
   const match = markdownText.match(regex);
 
-  if (match && match[1]) {
+  // Models don't always fence their JSON, so fall back to the outermost object.
+  const start = markdownText.indexOf("{");
+  const end = markdownText.lastIndexOf("}");
+  const candidate =
+    match?.[1] ?? (start !== -1 && end > start ? markdownText.slice(start, end + 1) : null);
+
+  if (candidate) {
     try {
-      return JSON.parse(match[1]);
+      return JSON.parse(candidate);
     } catch (error) {
       console.error("Error parsing JSON:", error);
       return null;
@@ -42,17 +48,17 @@ export function getFirstWord(input: unknown = ""): string {
 }
 
 export const calculateTrendPercentage = (
-  countOfThisMonth: number,
-  countOfLastMonth: number
+  currentCount: number,
+  previousCount: number
 ): TrendResult => {
-  if (countOfLastMonth === 0) {
-    return countOfThisMonth === 0
+  if (previousCount === 0) {
+    return currentCount === 0
       ? { trend: "no change", percentage: 0 }
       : { trend: "increment", percentage: 100 };
   }
 
-  const change = countOfThisMonth - countOfLastMonth;
-  const percentage = Math.abs((change / countOfLastMonth) * 100);
+  const change = currentCount - previousCount;
+  const percentage = Math.abs((change / previousCount) * 100);
 
   if (change > 0) {
     return { trend: "increment", percentage };
@@ -67,4 +73,19 @@ export const formatKey = (key: keyof TripFormData) => {
   return key
     .replace(/([A-Z])/g, " $1")
     .replace(/^./, (str) => str.toUpperCase());
-};
\ No newline at end of file
+};
+
+const REDIRECT_BASE = 'http://localhost';
+
+// Only same-site paths, so a crafted sign-in link can't send users elsewhere.
+// Parsing catches what browsers read as another host, such as `/\evil.com`.
+export const safeRedirectPath = (path: string | null | undefined, fallback = '/') => {
+  if (!path?.startsWith('/') || /[\u0000-\u001f\u007f]/.test(path)) return fallback;
+
+  try {
+    const url = new URL(path, REDIRECT_BASE);
+    return url.origin === REDIRECT_BASE ? `${url.pathname}${url.search}${url.hash}` : fallback;
+  } catch {
+    return fallback;
+  }
+};
@@ -12,6 +12,8 @@ import * as Sentry from "@sentry/react-router";
 
 import type { Route } from "./+types/root";
 import "./app.css";
+import { getCurrencyPreference } from "~/lib/currency-preference";
+import { getExchangeRates } from "~/lib/exchange-rates";
 
 export const links: Route.LinksFunction = () => [
   { rel: "preconnect", href: "https://fonts.googleapis.com" },
@@ -31,6 +33,12 @@ import { registerLicense } from "@syncfusion/ej2-base";
 registerLicense(import.meta.env.VITE_SYNCFUSION_LICENSE_KEY);
 
 
+// Read by `Price` through `useRouteLoaderData('root')` to show prices in the viewer's currency.
+export const loader = async ({ request }: Route.LoaderArgs) => ({
+  currency: await getCurrencyPreference(request),
+  exchangeRates: await getExchangeRates(),
+});
+
 export function Layout({ children }: { children: React.ReactNode }) {
   return (
     <html lang="en">
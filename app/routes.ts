@@ -2,7 +2,22 @@ import { type RouteConfig, index, layout, route} from "@react-router/dev/routes"
 
 const routes = [
     route('sign-in', 'routes/root/sign-in.tsx'),
+    route('auth/callback', 'routes/root/auth-callback.tsx'),
+    route('auth/verify', 'routes/root/auth-verify.tsx'),
     route('api/create-trip', 'routes/api/create-trip.ts'),
+    route('api/jobs/:jobId', 'routes/api/jobs.ts'),
+    route('api/trips/:tripId/edit', 'routes/api/edit-trip.ts'),
+    route('api/trips/:tripId/regenerate-day', 'routes/api/regenerate-day.ts'),
+    route('api/trips/:tripId/rollback', 'routes/api/rollback-trip.ts'),
+    route('api/trips/:tripId/payment-link', 'routes/api/payment-link.ts'),
+    route('api/trips/:tripId/bookings', 'routes/api/bookings.ts'),
+    route('api/trips/:tripId/capacity', 'routes/api/trip-capacity.ts'),
+    route('api/bookings/:bookingId/cancel', 'routes/api/cancel-booking.ts'),
+    route('api/stripe/webhook', 'routes/api/stripe-webhook.ts'),
+    route('api/users/duplicates', 'routes/api/user-duplicates.ts'),
+    route('api/users/:userId', 'routes/api/users.ts'),
+    route('api/currency', 'routes/api/currency.ts'),
+    route('api/session', 'routes/api/session.ts'),
     layout('routes/admin/admin-layout.tsx',[
         route('dashboard', 'routes/admin/dashboard.tsx'),
         route('all-users', 'routes/admin/all-users.tsx'),
@@ -12,6 +27,8 @@ const routes = [
     ]),
     layout('routes/root/page-layout.tsx',[
         index('routes/root/travel-page.tsx'),
+        route('travel/:tripId', 'routes/root/travel-detail.tsx'),
+        route('travel/:tripId/success', 'routes/root/payment-success.tsx'),
     ])
 ] satisfies RouteConfig;
 
@@ -1,28 +1,10 @@
-import { Outlet, redirect } from 'react-router'
+import { Outlet, type LoaderFunctionArgs } from 'react-router'
 import { SidebarComponent } from '@syncfusion/ej2-react-navigations';
 import  { NavItems, MobileSidebar } from 'components';
-import { getExistingUser, storeUserData } from "~/appwrite/auth"
-import { account } from '~/appwrite/client';
+import { requireAdmin } from '~/lib/session';
 
-
-export async function clientLoader() {
-    try{
-        const user = await account.get()
-        if(!user.$id) return redirect('/sign-in')
-          
-        const exisitingUser = await getExistingUser(user.$id)
-
-        if(exisitingUser?.status === 'user'){
-          return redirect('/')
-        } 
-
-        return exisitingUser?.$id ? exisitingUser : await storeUserData()
-    } catch(e){
-        console.log('Error loading client:', e)
-        return redirect('/sign-in')
-
-    }
-}
+// Runs on the server, so visitors and non-admins are redirected before any admin page renders.
+export const loader = async ({ request }: LoaderFunctionArgs) => requireAdmin(request)
 
 const AdminLayout = () => {
   return (
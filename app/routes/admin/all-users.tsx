@@ -1,23 +1,180 @@
-import { Header } from "components"
-import { ColumnDirective, ColumnsDirective, GridComponent } from '@syncfusion/ej2-react-grids';
-import { users } from "~/constants";
+import { useState } from "react";
+import { Form, Link, useRevalidator, useSearchParams, type LoaderFunctionArgs } from "react-router";
+import { ConfirmDialog, DuplicateUsers, Header } from "components"
+import { ColumnDirective, ColumnsDirective, GridComponent, PagerComponent } from '@syncfusion/ej2-react-grids';
 import { cn, formatDate } from "~/lib/utils";
-import { getAllUser } from "~/appwrite/auth";
+import { manageUser } from "~/appwrite/auth";
 import type { Route } from "./+types/all-users";
+import { requireAdmin } from "~/lib/session";
+import { listUsers } from "~/lib/user-admin";
+import { getItineraryCount } from "~/lib/itinerary-counts";
 
-export const loader = async () => {
-  const { users, total } = await getAllUser(10, 0);
-  return { users, total };
+type ManagedUser = UserData & { $id: string; accountId: string; joinedAt: string };
+
+const actionCopy: Record<UserAdminAction, { label: string; title: string; description: (name: string) => string; destructive?: boolean }> = {
+  promote: {
+    label: 'Make admin',
+    title: 'Promote to admin?',
+    description: (name) => `${name} will get full access to the admin dashboard.`,
+  },
+  demote: {
+    label: 'Remove admin',
+    title: 'Remove admin access?',
+    description: (name) => `${name} will lose access to the admin dashboard.`,
+  },
+  suspend: {
+    label: 'Suspend',
+    title: 'Suspend this account?',
+    description: (name) => `${name} will be signed out of the admin dashboard until the account is reactivated.`,
+    destructive: true,
+  },
+  reactivate: {
+    label: 'Reactivate',
+    title: 'Reactivate this account?',
+    description: (name) => `${name} will be able to sign in again.`,
+  },
+  delete: {
+    label: 'Delete',
+    title: 'Delete this user?',
+    description: (name) => `${name} and all of their trips, with those trips' bookings and revision history, will be permanently deleted. This cannot be undone.`,
+    destructive: true,
+  },
+};
+
+const PAGE_SIZE = 10;
+
+const sortOptions: { value: UserSortField; label: string }[] = [
+  { value: 'joinedAt', label: 'Join date' },
+  { value: 'name', label: 'Name' },
+  { value: 'itineraryCount', label: 'Trips created' },
+];
+
+const oneOf = <T extends string>(value: string | null, options: readonly T[]) =>
+  options.includes(value as T) ? value as T : undefined;
+
+// Date inputs give `YYYY-MM-DD`; the end date is inclusive, so the bound is the next midnight.
+const toDateBound = (value: string | null, inclusiveEnd = false) => {
+  if (!value || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return undefined;
+  const date = new Date(`${value}T00:00:00`);
+  if (inclusiveEnd) date.setDate(date.getDate() + 1);
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+};
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  await requireAdmin(request);
+  const { searchParams } = new URL(request.url);
+  const page = Math.max(parseInt(searchParams.get('page') || '1', 10) || 1, 1);
+
+  const options: UserListOptions = {
+    search: searchParams.get('q') ?? undefined,
+    status: oneOf(searchParams.get('status'), ['user', 'admin', 'suspended'] as const),
+    joinedFrom: toDateBound(searchParams.get('from')),
+    joinedTo: toDateBound(searchParams.get('to'), true),
+    sort: oneOf(searchParams.get('sort'), sortOptions.map(({ value }) => value)),
+    order: oneOf(searchParams.get('order'), ['asc', 'desc'] as const),
+  };
+
+  const { users, total } = await listUsers(PAGE_SIZE, (page - 1) * PAGE_SIZE, options);
+  const withCounts = await Promise.all(users.map(async (user) => ({
+    ...user,
+    itineraryCount: await getItineraryCount(user),
+  })));
+  return { users: withCounts, total, page };
 };
 
 const AllUsers = ({ loaderData }: Route.ComponentProps) => {
-  const { users, total } = loaderData;
+  const { users, total, page } = loaderData;
+  const revalidator = useRevalidator();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [pending, setPending] = useState<{ user: ManagedUser; action: UserAdminAction } | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const closeDialog = () => {
+    setPending(null);
+    setError(null);
+  };
+
+  const handleConfirm = async () => {
+    if (!pending) return;
+    setLoading(true);
+    setError(null);
+
+    try {
+      await manageUser(pending.user.$id, pending.action);
+      closeDialog();
+      revalidator.revalidate();
+    } catch (e) {
+      console.error('Error managing user:', e);
+      setError(e instanceof Error ? e.message : 'Failed to update user');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const actionsFor = ({ status, suspended }: ManagedUser): UserAdminAction[] => [
+    status === 'admin' ? 'demote' : 'promote',
+    suspended ? 'reactivate' : 'suspend',
+    'delete',
+  ];
+
+  const handlePageChange = (nextPage: number) => {
+    const next = new URLSearchParams(searchParams);
+    next.set('page', String(nextPage));
+    setSearchParams(next, { preventScrollReset: true });
+  };
+
   return (
     <main className='all-users wrapper'>
       <Header
         title={`Manage Users`}
         description="Filter, Sort, and Manage Users Details"
       />
+
+      {/* Submitting resets to page 1, since `page` isn't one of the form's fields. */}
+      <Form method="get" key={searchParams.toString()} className="flex flex-wrap items-end gap-4">
+        <label className="flex flex-col gap-1 text-sm text-gray-500 flex-1 min-w-[220px]">
+          Search
+          <input name="q" type="search" className="form-input !py-2" placeholder="Name or email" defaultValue={searchParams.get('q') ?? ''} />
+        </label>
+        <label className="flex flex-col gap-1 text-sm text-gray-500">
+          Status
+          <select name="status" className="form-input !py-2" defaultValue={searchParams.get('status') ?? ''}>
+            <option value="">All</option>
+            <option value="user">User</option>
+            <option value="admin">Admin</option>
+            <option value="suspended">Suspended</option>
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-sm text-gray-500">
+          Joined from
+          <input name="from" type="date" className="form-input !py-2" defaultValue={searchParams.get('from') ?? ''} />
+        </label>
+        <label className="flex flex-col gap-1 text-sm text-gray-500">
+          Joined to
+          <input name="to" type="date" className="form-input !py-2" defaultValue={searchParams.get('to') ?? ''} />
+        </label>
+        <label className="flex flex-col gap-1 text-sm text-gray-500">
+          Sort by
+          <select name="sort" className="form-input !py-2" defaultValue={searchParams.get('sort') ?? 'joinedAt'}>
+            {sortOptions.map(({ value, label }) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-sm text-gray-500">
+          Order
+          <select name="order" className="form-input !py-2" defaultValue={searchParams.get('order') ?? 'desc'}>
+            <option value="desc">Descending</option>
+            <option value="asc">Ascending</option>
+          </select>
+        </label>
+        <button type="submit" className="px-4 py-2.5 rounded-lg bg-primary-100 text-white text-sm font-semibold cursor-pointer">
+          Apply
+        </button>
+      </Form>
+
+      <p className="text-sm text-gray-500">{total} {total === 1 ? 'user' : 'users'} found</p>
       
       <GridComponent dataSource={users} gridLines="None">
         <ColumnsDirective>
@@ -46,23 +203,77 @@ const AllUsers = ({ loaderData }: Route.ComponentProps) => {
             textAlign="Left"
             template={({ joinedAt }: { joinedAt: string }) => formatDate(joinedAt)}
           />
+          <ColumnDirective 
+            field="itineraryCount"
+            headerText="Trips"
+            width="80"
+            textAlign="Left"
+            template={({ accountId, itineraryCount }: ManagedUser) => (
+              <Link to={`/trips?userId=${accountId}`} className="text-primary-100 font-semibold">{itineraryCount ?? 0}</Link>
+            )}
+          />
           <ColumnDirective 
             field="status"
             headerText="Status"
             width="100"
             textAlign="Left"
-            template={( {status} : UserData) => (
-              <article className={cn('status-column', status === 'user' ? 'bg-success-50' : 'bg-light-300')}> 
-                <div className={cn('size-1.5 rounded-full', status === 'user' ? 'bg-success-500' : 'bg-gray-500')} />
-                  <h3 className={cn('font-inter text-xs font-medium', status === 'user' ? 'text-success-700' : 'text-gray-500')}>{status}</h3>
+            template={( {status, suspended} : UserData) => (
+              <article className={cn('status-column', suspended ? 'bg-red-50' : status === 'user' ? 'bg-success-50' : 'bg-light-300')}> 
+                <div className={cn('size-1.5 rounded-full', suspended ? 'bg-red-500' : status === 'user' ? 'bg-success-500' : 'bg-gray-500')} />
+                  <h3 className={cn('font-inter text-xs font-medium', suspended ? 'text-red-500' : status === 'user' ? 'text-success-700' : 'text-gray-500')}>
+                    {suspended ? 'suspended' : status}
+                  </h3>
                 
               </article>
             )}
           />
+          <ColumnDirective 
+            headerText="Actions"
+            width="260"
+            textAlign="Left"
+            template={(user: ManagedUser) => (
+              <div className="flex gap-3">
+                {actionsFor(user).map((action) => (
+                  <button
+                    key={action}
+                    type="button"
+                    onClick={() => setPending({ user, action })}
+                    className={cn('text-sm font-semibold cursor-pointer', actionCopy[action].destructive ? 'text-red-500' : 'text-primary-100')}
+                  >
+                    {actionCopy[action].label}
+                  </button>
+                ))}
+              </div>
+            )}
+          />
 
 
         </ColumnsDirective>
     </GridComponent>
+
+      {total > PAGE_SIZE && (
+        <PagerComponent
+          totalRecordsCount={total}
+          pageSize={PAGE_SIZE}
+          currentPage={page}
+          click={(args) => handlePageChange(args.currentPage)}
+          cssClass="!mb-4"
+        />
+      )}
+
+      <ConfirmDialog
+        open={pending !== null}
+        title={pending ? actionCopy[pending.action].title : ''}
+        description={pending ? actionCopy[pending.action].description(pending.user.name) : ''}
+        confirmText={pending ? actionCopy[pending.action].label : ''}
+        destructive={pending ? actionCopy[pending.action].destructive : false}
+        loading={loading}
+        error={error}
+        onConfirm={handleConfirm}
+        onCancel={closeDialog}
+      />
+
+      <DuplicateUsers onMerged={revalidator.revalidate} />
     </main>
   )
 }
@@ -4,14 +4,19 @@ import { MapsComponent, LayersDirective, LayerDirective, Coordinate } from '@syn
 import type { Route } from './+types/trips';
 import { comboBoxItems, selectItems } from '~/constants';
 import { cn, formatKey } from '~/lib/utils';
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { world_map } from '~/constants/world_map';
 import { ButtonComponent } from '@syncfusion/ej2-react-buttons';
 import { account } from '~/appwrite/client';
-import { useNavigate } from 'react-router';
+import { apiFetch } from '~/appwrite/auth';
+import { useNavigate, type LoaderFunctionArgs } from 'react-router';
+import { requireAdmin } from '~/lib/session';
 
 
-export const loader = async () =>{
+const JOB_POLL_INTERVAL_MS = 1500
+
+export const loader = async ({ request }: LoaderFunctionArgs) =>{
+    await requireAdmin(request)
     const response = await fetch('https://restcountries.com/v3.1/independent?status=true')
     if(!response.ok){
         throw new Error('Failed to fetch countries')
@@ -40,10 +45,17 @@ const CreateTrip = ({loaderData} : Route.ComponentProps) => {
 
     const [error, setError] = useState<string | null>(null)
     const [loading, setLoading] = useState(false)
+    const [progress, setProgress] = useState<string | null>(null)
+    const [partialDays, setPartialDays] = useState<DayPlan[]>([])
+    const jobIdRef = useRef<string | null>(null)
+    const mountedRef = useRef(true)
+
+    useEffect(() => () => { mountedRef.current = false }, [])
 
     const handleSubmit = async(e: React.FormEvent<HTMLFormElement>) => {
         e.preventDefault()
         setLoading(true)
+        setError(null)
 
         if(
             !formData.country ||
@@ -81,11 +93,10 @@ const CreateTrip = ({loaderData} : Route.ComponentProps) => {
                 userId: user.$id
             });
 
-            const response = await fetch('/api/create-trip',{
+            const response = await apiFetch('/api/create-trip',{
                 method: 'POST',
                 headers: {
-                    'Content-Type': 'application/json',
-                    'Authorization': `Bearer ${user.$id}`
+                    'Content-Type': 'application/json'
                 },
                 body: JSON.stringify({
                    country: formData.country,
@@ -93,8 +104,7 @@ const CreateTrip = ({loaderData} : Route.ComponentProps) => {
                    travelStyle: formData.travelStyle,
                    interests: formData.interest,
                    budget: formData.budget,
-                   groupType: formData.groupType,
-                   userId: user.$id
+                   groupType: formData.groupType
                 })
             })
 
@@ -106,15 +116,13 @@ const CreateTrip = ({loaderData} : Route.ComponentProps) => {
                 throw new Error(`API request failed: ${response.status} ${response.statusText}`);
             }
 
-            const result: CreateTripResponse = await response.json()
-            console.log('✅ API Success Response:', result);
-            
-            if(result?.id) {
-                navigate(`/trips/${result.id}`)
-            } else {
-                console.error('❌ No ID in response:', result);
-                setError('Trip was created but navigation failed. Please check the trips list.');
-            }
+            const { jobId }: CreateTripResponse = await response.json()
+            if (!jobId) throw new Error('Trip generation could not be queued')
+
+            jobIdRef.current = jobId
+            setPartialDays([])
+            setProgress('Queued...')
+            await pollJob(jobId)
         } catch (e) {
             console.error('❌ Error generating trip-handleSubmit:', e)
             
@@ -128,10 +136,49 @@ const CreateTrip = ({loaderData} : Route.ComponentProps) => {
             }
             setLoading(false)
         } finally {
+            jobIdRef.current = null
+            setProgress(null)
             setLoading(false)
         }
         
     }
+
+    const pollJob = async (jobId: string) => {
+        while (mountedRef.current) {
+            const response = await apiFetch(`/api/jobs/${jobId}`)
+            if (!response.ok) throw new Error(`Failed to fetch job status: ${response.status}`)
+
+            const job: TripJobStatusResponse = await response.json()
+            setPartialDays(job.progress?.itinerary ?? [])
+            setProgress(job.status === 'queued' && job.attempts > 0
+                ? `Retrying (attempt ${job.attempts + 1} of ${job.maxAttempts})...`
+                : job.progress?.message ?? 'Queued...')
+
+            switch (job.status) {
+                case 'succeeded':
+                    console.log('✅ Trip created:', job.tripId);
+                    navigate(`/trips/${job.tripId}`)
+                    return;
+                case 'failed':
+                    console.error('❌ Trip generation failed:', job.issues ?? job.error);
+                    setError(job.issues?.length
+                        ? `${job.error}: ${job.issues.slice(0, 3).map((issue) => `${issue.path || 'response'} - ${issue.message}`).join('; ')}`
+                        : `Error: ${job.error}`)
+                    return;
+                case 'cancelled':
+                    setError('Trip generation was cancelled.')
+                    return;
+            }
+
+            await new Promise((resolve) => setTimeout(resolve, JOB_POLL_INTERVAL_MS))
+        }
+    }
+
+    const handleCancel = async () => {
+        if (!jobIdRef.current) return
+        await apiFetch(`/api/jobs/${jobIdRef.current}`, { method: 'DELETE' })
+    }
+
     const handleChange = (key: keyof TripFormData, value: string | number) => {
         setFormData({ ...formData, [key]: value })
     }
@@ -260,6 +307,23 @@ const CreateTrip = ({loaderData} : Route.ComponentProps) => {
             </div>
 
             <div className='bg-gray-200 h-px w-full'/>
+            {(progress || partialDays.length > 0) && (
+                <div>
+                    {progress && <p className='p-16-semibold text-dark-100'>{progress}</p>}
+                    <ul className='flex flex-col gap-4'>
+                        {partialDays.map((dayPlan) => (
+                            <li key={dayPlan.day} className='flex flex-col gap-1.5'>
+                                <h3 className='p-16-semibold text-dark-400'>Day {dayPlan.day}: {dayPlan.location}</h3>
+                                {dayPlan.activities.map((activity, index) => (
+                                    <p key={index} className='text-sm text-gray-100'>
+                                        <span className='font-semibold'>{activity.time}</span> - {activity.description}
+                                    </p>
+                                ))}
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
             {error && 
             <div className='error'>
                 <p>{error}</p>
@@ -270,6 +334,11 @@ const CreateTrip = ({loaderData} : Route.ComponentProps) => {
                     <img src={`/assets/icons/${loading ? 'loader.svg' : 'magic-star.svg'}`} className={cn('size-5', {'animate-spin' : loading})}/>
                     <span className='p-16-semibold text-white'>{loading ? 'Generating...' : 'Generate Trip'}</span>
                 </ButtonComponent>
+                {loading && (
+                    <ButtonComponent type='button' className='button-class-secondary !h-12 !w-full !mt-3' onClick={handleCancel}>
+                        <span className='p-16-semibold'>Cancel</span>
+                    </ButtonComponent>
+                )}
             </footer>
 
         </form>
@@ -1,9 +1,9 @@
-import {Header, StatsCard, TripCard} from "../../../components";
+import {DateRangePicker, Header, StatsCard, TripCard} from "../../../components";
 import {getAllUser, getUser} from "~/appwrite/auth";
 import type { Route } from './+types/dashboard';
 import {getTripsByTravelStyle, getUserGrowthPerDay, getUsersAndTripsStats} from "~/appwrite/dashboard";
-import {getAllTrips} from "~/appwrite/trips";
-import {parseTripData} from "~/lib/utils";
+import {getAllTrips, getItineraryCount} from "~/appwrite/trips";
+import {toTrip} from "~/lib/trip-attributes";
 import {
     Category,
     ChartComponent,
@@ -14,9 +14,12 @@ import {
 } from "@syncfusion/ej2-react-charts";
 import {ColumnDirective, ColumnsDirective, GridComponent, Inject} from "@syncfusion/ej2-react-grids";
 import {tripXAxis, tripYAxis, userXAxis, userYAxis} from "~/constants";
-import {redirect} from "react-router";
+import {Link, redirect, type ClientLoaderFunctionArgs} from "react-router";
+import {describeComparison, resolveDashboardRange} from "~/lib/date-ranges";
+
+export const clientLoader = async ({ request }: ClientLoaderFunctionArgs) => {
+    const range = resolveDashboardRange(new URL(request.url).searchParams);
 
-export const clientLoader = async () => {
     const [
         user,
         dashboardStats,
@@ -26,27 +29,25 @@ export const clientLoader = async () => {
         allUsers,
     ] = await Promise.all([
         await getUser(),
-        await getUsersAndTripsStats(),
+        await getUsersAndTripsStats(range),
         await getAllTrips(4, 0),
-        await getUserGrowthPerDay(),
-        await getTripsByTravelStyle(),
+        await getUserGrowthPerDay(range),
+        await getTripsByTravelStyle(range),
         await getAllUser(4, 0),
     ])
 
-    const allTrips = trips.allTrips.map(({ $id, tripDetails, imageUrls }) => ({
-        id: $id,
-        ...parseTripData(tripDetails),
-        imageUrls: imageUrls ?? []
-    }))
+    const allTrips = trips.allTrips.flatMap((document) => toTrip(document) ?? [])
 
-    const mappedUsers: UsersItineraryCount[] = allUsers.users.map((user) => ({
+    const mappedUsers: UsersItineraryCount[] = await Promise.all(allUsers.users.map(async (user) => ({
+        accountId: user.accountId,
         imageUrl: user.imageUrl,
         name: user.name,
-        count: user.itineraryCount ?? Math.floor(Math.random() * 10),
-    }))
+        count: await getItineraryCount(user),
+    })))
 
     return {
         user,
+        range,
         dashboardStats,
         allTrips,
         userGrowth,
@@ -58,7 +59,8 @@ export const clientLoader = async () => {
 
 const Dashboard = ({ loaderData }: Route.ComponentProps) => {
     const user = loaderData.user as User | null;
-    const { dashboardStats, allTrips, userGrowth, tripsByTravelStyle, allUsers } = loaderData;
+    const { range, dashboardStats, allTrips, userGrowth, tripsByTravelStyle, allUsers } = loaderData;
+    const comparisonLabel = describeComparison(range.comparison);
 
     const trips = allTrips.map((trip) => ({
         imageUrl: trip.imageUrls[0],
@@ -71,13 +73,17 @@ const Dashboard = ({ loaderData }: Route.ComponentProps) => {
             title: 'Latest user signups',
             dataSource: allUsers,
             field: 'count',
-            headerText: 'Trips created'
+            headerText: 'Trips created',
+            template: ({ accountId, count }: UsersItineraryCount) => (
+                <Link to={`/trips?userId=${accountId}`} className="text-primary-100 font-semibold">{count}</Link>
+            )
         },
         {
             title: 'Trips based on interests',
             dataSource: trips,
             field: 'interest',
-            headerText: 'Interests'
+            headerText: 'Interests',
+            template: undefined
         }
     ]
 
@@ -88,25 +94,30 @@ const Dashboard = ({ loaderData }: Route.ComponentProps) => {
                 description="Track activity, trends and popular destinations in real time"
             />
 
+            <DateRangePicker key={`${range.from}-${range.to}`} range={range} />
+
             <section className="flex flex-col gap-6">
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-6 w-full">
                     <StatsCard
                         headerTitle="Total Users"
                         total={dashboardStats.totalUsers}
-                        currentMonthCount={dashboardStats.usersJoined.currentMonth}
-                        lastMonthCount={dashboardStats.usersJoined.lastMonth}
+                        currentCount={dashboardStats.usersJoined.current}
+                        previousCount={dashboardStats.usersJoined.previous}
+                        comparisonLabel={comparisonLabel}
                     />
                     <StatsCard
                         headerTitle="Total Trips"
                         total={dashboardStats.totalTrips}
-                        currentMonthCount={dashboardStats.tripsCreated.currentMonth}
-                        lastMonthCount={dashboardStats.tripsCreated.lastMonth}
+                        currentCount={dashboardStats.tripsCreated.current}
+                        previousCount={dashboardStats.tripsCreated.previous}
+                        comparisonLabel={comparisonLabel}
                     />
                     <StatsCard
                         headerTitle="Active Users"
                         total={dashboardStats.userRole.total}
-                        currentMonthCount={dashboardStats.userRole.currentMonth}
-                        lastMonthCount={dashboardStats.userRole.lastMonth}
+                        currentCount={dashboardStats.userRole.current}
+                        previousCount={dashboardStats.userRole.previous}
+                        comparisonLabel={comparisonLabel}
                     />
                 </div>
             </section>
@@ -122,7 +133,7 @@ const Dashboard = ({ loaderData }: Route.ComponentProps) => {
                             imageUrl={trip.imageUrls[0]}
                             location={trip.itinerary?.[0]?.location ?? ''}
                             tags={[trip.interests!, trip.travelStyle!]}
-                            price={trip.estimatedPrice!}
+                            price={trip.price}
                         />
                     ))}
                 </div>
@@ -185,7 +196,7 @@ const Dashboard = ({ loaderData }: Route.ComponentProps) => {
             </section>
 
             <section className="user-trip wrapper">
-                {usersAndTrips.map(({ title, dataSource, field, headerText}, i) => (
+                {usersAndTrips.map(({ title, dataSource, field, headerText, template}, i) => (
                     <div key={i} className="flex flex-col gap-5">
                         <h3 className="p-20-semibold text-dark-100">{title}</h3>
 
@@ -209,6 +220,7 @@ const Dashboard = ({ loaderData }: Route.ComponentProps) => {
                                 headerText={headerText}
                                 width="150"
                                 textAlign="Left"
+                                template={template}
                                 />
                                 </ColumnsDirective>
                         </GridComponent>
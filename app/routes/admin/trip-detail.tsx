@@ -1,40 +1,100 @@
-import type {LoaderFunctionArgs} from "react-router";
+import {useEffect, useState} from "react";
+import {useBlocker, useRevalidator, type LoaderFunctionArgs} from "react-router";
+import {apiFetch} from "~/appwrite/auth";
 import {getAllTrips, getTripById} from "~/appwrite/trips";
+import {getTripRevisions} from "~/lib/trip-pipeline";
+import {getTripBookings} from "~/lib/bookings";
 import type { Route } from './+types/trip-detail';
-import {cn, getFirstWord, parseTripData} from "~/lib/utils";
-import {Header, InfoPill, TripCard} from "../../../components";
+import {cn, getFirstWord} from "~/lib/utils";
+import {toTrip} from "~/lib/trip-attributes";
+import {requireAdmin} from "~/lib/session";
+import {CostBreakdown, Header, InfoPill, Price, RegenerateDay, TripBookings, TripCard, TripEditor, TripMap, TripRevisions} from "../../../components";
 import {ChipDirective, ChipListComponent, ChipsDirective} from "@syncfusion/ej2-react-buttons";
 
-export const loader = async ({ params }: LoaderFunctionArgs) => {
+export const loader = async ({ params, request }: LoaderFunctionArgs) => {
+    await requireAdmin(request);
     const { tripId } = params;
     if(!tripId) throw new Error ('Trip ID is required');
 
-    const [trip, trips] = await Promise.all([
+    const [trip, trips, revisions, bookings] = await Promise.all([
         getTripById(tripId),
-        getAllTrips(4, 0)
+        getAllTrips(4, 0),
+        getTripRevisions(tripId),
+        getTripBookings(tripId)
     ]);
 
     return {
         trip,
-        allTrips: trips.allTrips.map(({ $id, tripDetails, imageUrls }) => ({
-            id: $id,
-            ...parseTripData(tripDetails),
-            imageUrls: imageUrls ?? []
-        }))
+        tripData: trip ? toTrip(trip) : null,
+        revisions,
+        bookings,
+        allTrips: trips.allTrips.flatMap((document) => toTrip(document) ?? [])
     }
 }
 
+const tabs = [
+    { id: 'bookings', label: 'Bookings' },
+    { id: 'history', label: 'Revision History' },
+] as const;
+
 const TripDetail = ({ loaderData }: Route.ComponentProps) => {
+    const revalidator = useRevalidator();
+    const [editing, setEditing] = useState(false);
+    const [dirty, setDirty] = useState(false);
+    const [publishing, setPublishing] = useState(false);
+    const [publishError, setPublishError] = useState<string | null>(null);
+    const [activeTab, setActiveTab] = useState<(typeof tabs)[number]['id']>('bookings');
+    const tripId = loaderData?.trip?.$id;
     const imageUrls = loaderData?.trip?.imageUrls || [];
-    const tripData = parseTripData(loaderData?.trip?.tripDetails);
+    const { tripData } = loaderData;
 
     const {
         name, duration, itinerary, travelStyle,
-        groupType, budget, interests, estimatedPrice,
+        groupType, budget, interests, estimatedPrice, price,
         description, bestTimeToVisit, weatherInfo, country
     } = tripData || {};
     const allTrips = loaderData.allTrips as Trip[] | [];
 
+    const blocker = useBlocker(({ currentLocation, nextLocation }) =>
+        dirty && currentLocation.pathname !== nextLocation.pathname
+    );
+
+    useEffect(() => {
+        if (blocker.state !== 'blocked') return;
+        if (window.confirm('You have unsaved changes. Leave this page?')) blocker.proceed();
+        else blocker.reset();
+    }, [blocker]);
+
+    useEffect(() => {
+        if (!dirty) return;
+        const handleBeforeUnload = (e: BeforeUnloadEvent) => e.preventDefault();
+        window.addEventListener('beforeunload', handleBeforeUnload);
+        return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+    }, [dirty]);
+
+    const handlePublish = async () => {
+        setPublishing(true);
+        setPublishError(null);
+
+        try {
+            const response = await apiFetch(`/api/trips/${tripId}/payment-link`, { method: 'POST' });
+            const result: { paymentLink?: string; error?: string } = await response.json();
+            if (!response.ok) throw new Error(result.error ?? `Request failed: ${response.status}`);
+            revalidator.revalidate();
+        } catch (e) {
+            console.error('Error creating payment link:', e);
+            setPublishError(e instanceof Error ? e.message : 'Failed to create payment link');
+        } finally {
+            setPublishing(false);
+        }
+    }
+
+    const closeEditor = () => {
+        if (dirty && !window.confirm('Discard your unsaved changes?')) return;
+        setDirty(false);
+        setEditing(false);
+    }
+
     const pillItems = [
         { text: travelStyle, bg: '!bg-pink-50 !text-pink-500' },
         { text: groupType, bg: '!bg-primary-50 !text-primary-500' },
@@ -128,45 +188,129 @@ const TripDetail = ({ loaderData }: Route.ComponentProps) => {
                         <p>{budget}, {groupType} and {interests}</p>
                     </article>
 
-                    <h2>{estimatedPrice}</h2>
+                    <h2><Price money={price} fallback={estimatedPrice} /></h2>
                 </section>
 
-                <p className="text-sm md:text-lg font-normal text-dark-400">{description}</p>
-
-                <ul className="itinerary">
-                    {itinerary?.map((dayPlan: DayPlan, index: number) => (
-                        <li key={index}>
-                            <h3>
-                                Day {dayPlan.day}: {dayPlan.location}
-                            </h3>
-
-                            <ul>
-                                {dayPlan.activities.map((activity, index: number) => (
-                                    <li key={index} className="mb-1">
-                                        <span className="flex-shrink-0 p-17-semibold">{activity.time}</span>
-                                        <p className="flex-grow">{activity.description}</p>
-                                    </li>
-                                ))}
-                            </ul>
-                        </li>
+                {loaderData?.trip?.payment_link ? (
+                    <a href={loaderData.trip.payment_link} target="_blank" rel="noreferrer" className="w-fit text-sm font-semibold text-primary-100">
+                        View payment link
+                    </a>
+                ) : tripId && (
+                    <div className="flex flex-col gap-1">
+                        <button type="button" onClick={handlePublish} disabled={publishing} className="w-fit text-sm font-semibold text-primary-100 cursor-pointer disabled:opacity-50">
+                            {publishing ? 'Creating payment link...' : 'Create payment link'}
+                        </button>
+                        {publishError && <p className="error !text-left">{publishError}</p>}
+                    </div>
+                )}
+
+                {tripId && tripData && !editing && (
+                    <button type="button" onClick={() => setEditing(true)} className="w-fit text-sm font-semibold text-primary-100 cursor-pointer">
+                        Edit itinerary
+                    </button>
+                )}
+
+                {editing && tripId && tripData ? (
+                    <TripEditor
+                        tripId={tripId}
+                        trip={tripData}
+                        onDirtyChange={setDirty}
+                        onCancel={closeEditor}
+                        onSaved={() => {
+                            setDirty(false);
+                            setEditing(false);
+                            revalidator.revalidate();
+                        }}
+                    />
+                ) : (
+                    <>
+                    <p className="text-sm md:text-lg font-normal text-dark-400">{description}</p>
+
+                    {tripData && <TripMap trip={tripData} />}
+
+                    <ul className="itinerary">
+                        {itinerary?.map((dayPlan: DayPlan, index: number) => (
+                            <li key={index}>
+                                <h3>
+                                    Day {dayPlan.day}: {dayPlan.location}
+                                </h3>
+
+                                <ul>
+                                    {dayPlan.activities.map((activity, index: number) => (
+                                        <li key={index} className="mb-1">
+                                            <span className="flex-shrink-0 p-17-semibold">{activity.time}</span>
+                                            <p className="flex-grow">{activity.description}</p>
+                                        </li>
+                                    ))}
+                                </ul>
+
+                                {tripId && (
+                                    <RegenerateDay
+                                        tripId={tripId}
+                                        day={dayPlan.day}
+                                        onRegenerated={() => revalidator.revalidate()}
+                                    />
+                                )}
+                            </li>
+                        ))}
+                    </ul>
+
+                    {tripData && <CostBreakdown trip={tripData} />}
+
+                    {visitTimeAndWeatherInfo.map((section) => (
+                        <section key={section.title} className="visit">
+                            <div>
+                                <h3>{section.title}</h3>
+
+                                <ul>
+                                    {section.items?.map((item) => (
+                                        <li key={item}>
+                                            <p className="flex-grow">{item}</p>
+                                        </li>
+                                    ))}
+                                </ul>
+                            </div>
+                        </section>
                     ))}
-                </ul>
-
-                {visitTimeAndWeatherInfo.map((section) => (
-                    <section key={section.title} className="visit">
-                        <div>
-                            <h3>{section.title}</h3>
-
-                            <ul>
-                                {section.items?.map((item) => (
-                                    <li key={item}>
-                                        <p className="flex-grow">{item}</p>
-                                    </li>
-                                ))}
-                            </ul>
-                        </div>
+                    </>
+                )}
+
+                {tripId && (
+                    <section className="flex flex-col gap-4">
+                        <nav className="flex gap-6 border-b border-light-400">
+                            {tabs.map((tab) => (
+                                <button
+                                    key={tab.id}
+                                    type="button"
+                                    onClick={() => setActiveTab(tab.id)}
+                                    className={cn('pb-2 p-18-semibold cursor-pointer', activeTab === tab.id
+                                        ? 'text-primary-100 border-b-2 border-primary-100'
+                                        : 'text-gray-500')}
+                                >
+                                    {tab.label}
+                                    {tab.id === 'bookings' && ` (${loaderData.bookings.length})`}
+                                </button>
+                            ))}
+                        </nav>
+
+                        {activeTab === 'bookings' ? (
+                            <TripBookings
+                                key={loaderData.trip?.capacity ?? 'unlimited'}
+                                tripId={tripId}
+                                capacity={loaderData.trip?.capacity ?? null}
+                                bookings={loaderData.bookings}
+                                onChanged={() => revalidator.revalidate()}
+                            />
+                        ) : (
+                            <TripRevisions
+                                key={loaderData.revisions[0]?.id}
+                                tripId={tripId}
+                                revisions={loaderData.revisions}
+                                onRolledBack={() => revalidator.revalidate()}
+                            />
+                        )}
                     </section>
-                ))}
+                )}
 
             </section>
 
@@ -182,7 +326,7 @@ const TripDetail = ({ loaderData }: Route.ComponentProps) => {
                             imageUrl={trip.imageUrls[0]}
                             location={trip.itinerary?.[0]?.location ?? ""}
                             tags={[trip.interests, trip.travelStyle]}
-                            price={trip.estimatedPrice}
+                            price={trip.price}
                         />
                     ))}
                 </div>
@@ -1,39 +1,68 @@
-import { Header, TripCard } from "components"
-import {useSearchParams, type LoaderFunctionArgs} from "react-router";
+import { Header, TripCard, TripFilterBar } from "components"
+import {Link, useSearchParams, type LoaderFunctionArgs} from "react-router";
 import { getAllTrips, getTripById } from "~/appwrite/trips";
-import { parseTripData } from "~/lib/utils";
+import { toTrip } from "~/lib/trip-attributes";
+import { getUserByAccountId, requireAdmin } from "~/lib/session";
 import type {Route} from './+types/trips'
 import { useState } from "react";
 import { PagerComponent } from '@syncfusion/ej2-react-grids';
 
+const toPositiveInt = (value: string | null) => {
+    const number = parseInt(value ?? '', 10)
+    return number > 0 ? number : undefined
+}
+
+// `sort` is `<field>:<order>`, e.g. `price:asc`.
+const toTripFilters = (searchParams: URLSearchParams): TripFilters => {
+    const [sort, order] = (searchParams.get('sort') ?? '').split(':')
+
+    return {
+        search: searchParams.get('q') ?? undefined,
+        userId: searchParams.get('userId') || undefined,
+        travelStyle: searchParams.get('travelStyle') || undefined,
+        interest: searchParams.get('interest') || undefined,
+        budget: searchParams.get('budget') || undefined,
+        groupType: searchParams.get('groupType') || undefined,
+        minDays: toPositiveInt(searchParams.get('minDays')),
+        maxDays: toPositiveInt(searchParams.get('maxDays')),
+        sort: sort === 'price' ? 'price' : 'createdAt',
+        order: order === 'asc' ? 'asc' : 'desc',
+    }
+}
 
 export const loader = async ({ request }: LoaderFunctionArgs) => {
+    await requireAdmin(request)
     const limit = 8
     const url = new URL(request.url);
     const page = parseInt(url.searchParams.get('page') || '1', 10)
     const offset = (page - 1) * limit
+    const filters = toTripFilters(url.searchParams)
+    const { userId } = filters
 
-    const {allTrips, total} = await getAllTrips(limit, offset)
+    const [{allTrips, total}, owner] = await Promise.all([
+        getAllTrips(limit, offset, filters),
+        userId ? getUserByAccountId(userId) : null,
+    ])
 
     return {
-        trips: allTrips.map(({ $id, tripDetails, imageUrls }) => ({
-            id: $id,
-            ...parseTripData(tripDetails),
-            imageUrls: imageUrls ?? []
-        })),
-        total
+        trips: allTrips.flatMap((document) => toTrip(document) ?? []),
+        total,
+        owner: userId ? { id: userId, name: owner?.name ?? 'Unknown user' } : null,
     }
 }
 
 const Trips = ({ loaderData }: Route.ComponentProps) => {
   const trips = loaderData.trips as Trip[] | [];
+  const { owner } = loaderData;
   const [searchParams] = useSearchParams();
   const initialPage = Number(searchParams.get('page') || '1');
 
   const [currentPage, setCurrentPage] = useState(initialPage);
   const handlePageChange = (page: number) => {
     setCurrentPage(page);
-    window.location.search = `?page=${page}`;
+    const next = new URLSearchParams(searchParams);
+    next.set('page', String(page));
+    window.location.search = `?${next}`;
   };
 
   return (
@@ -45,7 +74,18 @@ const Trips = ({ loaderData }: Route.ComponentProps) => {
         ctaUrl="/trips/create"
       />
       <section>
-        <h1 className="p-24-semibold text-dark-100 mb-4">Manage Created Trips</h1>
+        <h1 className="p-24-semibold text-dark-100 mb-4">
+          {owner ? `Trips created by ${owner.name}` : 'Manage Created Trips'}
+        </h1>
+        <TripFilterBar />
+        {owner && (
+          <p className="text-sm text-gray-500 mb-4">
+            {loaderData.total} {loaderData.total === 1 ? 'trip' : 'trips'} · <Link to="/trips" className="text-primary-100 font-semibold">Show all trips</Link>
+          </p>
+        )}
+        {trips.length === 0 && (
+          <p className="text-sm text-gray-500 mb-4">No trips match these filters.</p>
+        )}
          <div className="trip-grid mb-4">
                     {trips.map((trip) => (
                        <TripCard
@@ -55,7 +95,7 @@ const Trips = ({ loaderData }: Route.ComponentProps) => {
                             imageUrl={trip.imageUrls[0]}
                             location={trip.itinerary?.[0]?.location ?? ""}
                             tags={[trip.interests, trip.travelStyle]}
-                            price={trip.estimatedPrice}
+                            price={trip.price}
                         />
                     ))}
                 </div>
@@ -0,0 +1,43 @@
+import { data, type ActionFunctionArgs } from "react-router";
+import { withApiAuth } from "~/lib/api-auth";
+import { BookingError, createBookingCheckout } from "~/lib/bookings";
+import { getCurrencyPreference } from "~/lib/currency-preference";
+
+const MAX_TRAVELERS = 10;
+
+// Bookings belong to the signed-in user, never to a user named in the body.
+export const action = withApiAuth(async ({ request, params }: ActionFunctionArgs, { accountId }) => {
+    try {
+        const { tripId } = params;
+        const { travelerNames } = await request.json();
+
+        const names = Array.isArray(travelerNames)
+            ? travelerNames.filter((name): name is string => typeof name === 'string' && name.trim() !== '').map((name) => name.trim())
+            : [];
+
+        if (!tripId || names.length === 0) {
+            return data({ error: 'Trip ID and at least one traveler name are required' }, { status: 400 });
+        }
+        if (names.length > MAX_TRAVELERS) {
+            return data({ error: `A booking can include at most ${MAX_TRAVELERS} travelers` }, { status: 400 });
+        }
+
+        const origin = new URL(request.url).origin;
+        const checkout = await createBookingCheckout({
+            tripId,
+            userId: accountId,
+            travelerNames: names,
+            currency: await getCurrencyPreference(request),
+            successUrl: `${origin}/travel/${tripId}/success?session_id={CHECKOUT_SESSION_ID}`,
+            cancelUrl: `${origin}/travel/${tripId}`,
+        });
+        return data(checkout, { status: 201 });
+    } catch (e) {
+        if (e instanceof BookingError) {
+            return data({ error: e.message }, { status: e.status });
+        }
+
+        console.error('API Error:', e instanceof Error ? e.message : 'Unknown error');
+        return data({ error: e instanceof Error ? e.message : 'Failed to create booking' }, { status: 500 });
+    }
+})
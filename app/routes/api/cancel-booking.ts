@@ -0,0 +1,24 @@
+import { data, type ActionFunctionArgs } from "react-router";
+import { AppwriteException } from "node-appwrite";
+import { withApiAuth } from "~/lib/api-auth";
+import { BookingError, cancelBooking } from "~/lib/bookings";
+
+export const action = withApiAuth(async ({ params }: ActionFunctionArgs) => {
+    try {
+        const { bookingId } = params;
+        if (!bookingId) return data({ error: 'Booking ID is required' }, { status: 400 });
+
+        const booking = await cancelBooking(bookingId);
+        return data({ booking });
+    } catch (e) {
+        if (e instanceof BookingError) {
+            return data({ error: e.message }, { status: e.status });
+        }
+        if (e instanceof AppwriteException && e.code === 404) {
+            return data({ error: 'Booking not found' }, { status: 404 });
+        }
+
+        console.error('API Error:', e instanceof Error ? e.message : 'Unknown error');
+        return data({ error: e instanceof Error ? e.message : 'Failed to cancel booking' }, { status: 500 });
+    }
+}, { admin: true })
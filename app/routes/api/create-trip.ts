@@ -1,10 +1,61 @@
 import { data, type  ActionFunctionArgs } from "react-router";
-import { GoogleGenerativeAI } from "@google/generative-ai";
-import { parseMarkdownToJson } from "~/lib/utils";
-import { appwriteConfig, serverDatabases as databases } from "~/appwrite/server";
-import { ID } from "appwrite";
+import { TripGenerationError } from "~/lib/trip-generation";
+import { runTripCreation } from "~/lib/trip-pipeline";
+import { tripJobQueue } from "~/lib/trip-jobs";
+import { withApiAuth } from "~/lib/api-auth";
 
-export const action = async ({ request }: ActionFunctionArgs) => {
+// Same bounds as the create-trip form; longer trips make prompts the model can't answer reliably.
+const MIN_DAYS = 1;
+const MAX_DAYS = 10;
+
+const encodeEvent = (event: TripProgressEvent) =>
+    new TextEncoder().encode(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+
+const toErrorEvent = (e: unknown): TripProgressEvent => e instanceof TripGenerationError
+    ? { type: 'error', error: e.message, issues: e.issues }
+    : { type: 'error', error: e instanceof Error ? e.message : 'Failed to generate trip' };
+
+// Streams progress as server-sent events; aborting the request cancels generation.
+const streamTripCreation = (request: Request, input: TripGenerationInput, userId: string) => {
+    const controller = new AbortController();
+    request.signal.addEventListener('abort', () => controller.abort());
+
+    const stream = new ReadableStream<Uint8Array>({
+        async start(streamController) {
+            const send = (event: TripProgressEvent) => {
+                if (!controller.signal.aborted) streamController.enqueue(encodeEvent(event));
+            };
+
+            try {
+                const id = await runTripCreation(input, userId, { signal: controller.signal, onEvent: send });
+                send({ type: 'done', id });
+            } catch (e) {
+                if (controller.signal.aborted) {
+                    console.log('Trip generation cancelled by client');
+                } else {
+                    console.error('API Error:', e instanceof Error ? e.message : 'Unknown error');
+                    send(toErrorEvent(e));
+                }
+            } finally {
+                if (!controller.signal.aborted) streamController.close();
+            }
+        },
+        cancel() {
+            controller.abort();
+        },
+    });
+
+    return new Response(stream, {
+        headers: {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache',
+            'Connection': 'keep-alive',
+        },
+    });
+}
+
+// Trips are created for the signed-in admin, never for a user named in the body.
+export const action = withApiAuth(async ({ request }: ActionFunctionArgs, { accountId }) => {
     try {
         const requestData = await request.json();
         const {
@@ -13,108 +64,42 @@ export const action = async ({ request }: ActionFunctionArgs) => {
             travelStyle,
             interests,
             budget,
-            groupType,
-            userId
+            groupType
         } = requestData;
 
-        if (!country || !numberOfDays || !travelStyle || !interests || !budget || !groupType || !userId) {
+        if (!country || !numberOfDays || !travelStyle || !interests || !budget || !groupType) {
             return data({ error: 'Missing required fields' }, { status: 400 });
         }
 
-        // Fix: Handle interests as string or array
-        const interestsArray = Array.isArray(interests) ? interests : [interests];
-
-        const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY!)
-        const unsplashApiKey = process.env.UNSPLASH_ACCESS_KEY!;
-
-        const prompt = `Generate a ${numberOfDays}-day travel itinerary for ${country} based on the following user information:
-          Budget: '${budget}'
-          Interests: '${interests}'
-          TravelStyle: '${travelStyle}'
-          GroupType: '${groupType}'
-          Return the itinerary and lowest estimated price in a clean, non-markdown JSON format with the following structure:
-          {
-          "name": "A descriptive title for the trip",
-          "description": "A brief description of the trip and its highlights not exceeding 100 words",
-          "estimatedPrice": "Lowest average price for the trip in USD, e.g.$price",
-          "duration": ${numberOfDays},
-          "budget": "${budget}",
-          "travelStyle": "${travelStyle}",
-          "country": "${country}",
-          "interests": ${interests},
-          "groupType": "${groupType}",
-          "bestTimeToVisit": [
-            '🌸 Season (from month to month): reason to visit',
-            '☀️ Season (from month to month): reason to visit',
-            '🍁 Season (from month to month): reason to visit',
-            '❄️ Season (from month to month): reason to visit'
-          ],
-          "weatherInfo": [
-            '☀️ Season: temperature range in Celsius (temperature range in Fahrenheit)',
-            '🌦️ Season: temperature range in Celsius (temperature range in Fahrenheit)',
-            '🌧️ Season: temperature range in Celsius (temperature range in Fahrenheit)',
-            '❄️ Season: temperature range in Celsius (temperature range in Fahrenheit)'
-          ],
-          "location": {
-            "city": "name of the city or region",
-            "coordinates": [latitude, longitude],
-            "openStreetMap": "link to open street map"
-          },
-          "itinerary": [
-          {
-            "day": 1,
-            "location": "City/Region Name",
-            "activities": [
-              {"time": "Morning", "description": "🏰 Visit the local historic castle and enjoy a scenic walk"},
-              {"time": "Afternoon", "description": "🖼️ Explore a famous art museum with a guided tour"},
-              {"time": "Evening", "description": "🍷 Dine at a rooftop restaurant with local wine"}
-            ]
-          },
-          ...
-          ]
-          }`;
-
-        const textResult = await genAI
-        .getGenerativeModel({model: 'gemini-2.5-flash-lite'})
-        .generateContent([prompt])
-
-        console.log('✅ Generative AI Response:', textResult.response.text());
-        if (!textResult || !textResult.response || !textResult.response.text || !textResult.response.text().trim()) {
-            console.error('Generative AI did not return valid text:', textResult);
-            throw new Error('Failed to generate trip details from Generative AI');
+        const days = Number(numberOfDays);
+        if (!Number.isInteger(days) || days < MIN_DAYS || days > MAX_DAYS) {
+            return data({ error: `numberOfDays must be a whole number from ${MIN_DAYS} to ${MAX_DAYS}` }, { status: 400 });
         }
 
-        const trip = parseMarkdownToJson(textResult.response.text())
+        // Fix: Handle interests as string or array
+        const interestsArray = Array.isArray(interests) ? interests : [interests];
 
-        const imageResponse = await fetch(
-            `https://api.unsplash.com/search/photos?query=${country} ${interestsArray.join(", ")} ${travelStyle}&client_id=${unsplashApiKey}`
-        );
+        const input: TripGenerationInput = {
+            country,
+            numberOfDays: days,
+            travelStyle,
+            interests: interestsArray.join(', '),
+            budget,
+            groupType,
+        };
 
-        if (!imageResponse.ok) {
-            console.error('Unsplash API error:', imageResponse.status);
+        if (request.headers.get('Accept')?.includes('text/event-stream')) {
+            return streamTripCreation(request, input, accountId);
         }
 
-        const imageData = await imageResponse.json();
-        const imageUrls = imageData.results?.slice(0,3).map((result:any) => result.urls?.regular || null) || [];
-
-        const result = await databases.createDocument(
-            appwriteConfig.databaseId,
-            appwriteConfig.tripsCollectionId,
-            ID.unique(),
-            {
-                tripDetails: JSON.stringify(trip),
-                createdAt: new Date().toISOString(),
-                imageUrls,
-                userId,
-            }
-        )
-        return data({id: result.$id})
+        const job = await tripJobQueue.enqueue({ input, userId: accountId });
+        return data({ jobId: job.id }, { status: 202 })
 
     } catch (e) {
         console.error('API Error:', e instanceof Error ? e.message : 'Unknown error');
-        return new Response(JSON.stringify({ error: e instanceof Error ? e.message : 'Failed to generate trip' }), { 
+        return new Response(JSON.stringify({ error: e instanceof Error ? e.message : 'Failed to generate trip' }), {
             status: 500,
             headers: { 'Content-Type': 'application/json' }
         });
     }
-}
\ No newline at end of file
+}, { admin: true })
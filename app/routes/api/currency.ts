@@ -0,0 +1,14 @@
+import { data, type ActionFunctionArgs } from "react-router";
+import { serializeCurrencyPreference } from "~/lib/currency-preference";
+import { SUPPORTED_CURRENCIES } from "~/lib/money";
+
+// Submitted from a fetcher, so every loader revalidates with the new currency.
+export const action = async ({ request }: ActionFunctionArgs) => {
+    const currency = (await request.formData()).get('currency');
+
+    if (typeof currency !== 'string' || !SUPPORTED_CURRENCIES.includes(currency)) {
+        return data({ error: `Currency must be one of ${SUPPORTED_CURRENCIES.join(', ')}` }, { status: 400 });
+    }
+
+    return data({ currency }, { headers: { 'Set-Cookie': await serializeCurrencyPreference(currency) } });
+}
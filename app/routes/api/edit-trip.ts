@@ -0,0 +1,26 @@
+import { data, type ActionFunctionArgs } from "react-router";
+import { AppwriteException } from "node-appwrite";
+import { withApiAuth } from "~/lib/api-auth";
+import { saveTripEdit } from "~/lib/trip-pipeline";
+
+// Edits are validated here, whatever the editor checked, and credited to the signed-in admin.
+export const action = withApiAuth(async ({ request, params }: ActionFunctionArgs, { accountId, user }) => {
+    try {
+        const { tripId } = params;
+        const { trip } = await request.json();
+
+        if (!tripId || !trip || typeof trip !== 'object') {
+            return data({ error: 'Trip ID and trip are required' }, { status: 400 });
+        }
+
+        const result = await saveTripEdit(tripId, trip, { id: accountId, name: user.name });
+        return data(result, { status: result.saved ? 200 : 422 });
+    } catch (e) {
+        if (e instanceof AppwriteException && e.code === 404) {
+            return data({ error: 'Trip not found' }, { status: 404 });
+        }
+
+        console.error('API Error:', e instanceof Error ? e.message : 'Unknown error');
+        return data({ error: e instanceof Error ? e.message : 'Failed to save trip' }, { status: 500 });
+    }
+}, { admin: true })
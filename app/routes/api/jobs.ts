@@ -0,0 +1,26 @@
+import { data, type ActionFunctionArgs, type LoaderFunctionArgs } from "react-router";
+import { withApiAuth } from "~/lib/api-auth";
+import { toTripJobStatus, tripJobQueue } from "~/lib/trip-jobs";
+
+// Jobs of other users are reported as missing rather than forbidden.
+const getOwnJob = async (jobId: string, accountId: string) => {
+    const job = await tripJobQueue.get(jobId);
+    return job?.payload.userId === accountId ? job : null;
+}
+
+export const loader = withApiAuth(async ({ params }: LoaderFunctionArgs, { accountId }) => {
+    const job = await getOwnJob(params.jobId!, accountId);
+    if (!job) return data({ error: 'Job not found' }, { status: 404 });
+
+    return data(toTripJobStatus(job), { headers: { 'Cache-Control': 'no-store' } });
+}, { admin: true })
+
+export const action = withApiAuth(async ({ request, params }: ActionFunctionArgs, { accountId }) => {
+    if (request.method !== 'DELETE') return data({ error: 'Method not allowed' }, { status: 405 });
+    if (!await getOwnJob(params.jobId!, accountId)) return data({ error: 'Job not found' }, { status: 404 });
+
+    const job = await tripJobQueue.cancel(params.jobId!);
+    if (!job) return data({ error: 'Job not found' }, { status: 404 });
+
+    return data(toTripJobStatus(job));
+}, { admin: true })
@@ -0,0 +1,24 @@
+import { data, type ActionFunctionArgs } from "react-router";
+import { withApiAuth } from "~/lib/api-auth";
+import { getCurrencyPreference } from "~/lib/currency-preference";
+import { publishTripPaymentLink, TripNotFoundError, TripPublishError } from "~/lib/trip-pipeline";
+
+export const action = withApiAuth(async ({ request, params }: ActionFunctionArgs) => {
+    try {
+        const { tripId } = params;
+        if (!tripId) return data({ error: 'Trip ID is required' }, { status: 400 });
+
+        const paymentLink = await publishTripPaymentLink(tripId, await getCurrencyPreference(request));
+        return data({ paymentLink });
+    } catch (e) {
+        if (e instanceof TripNotFoundError) {
+            return data({ error: e.message }, { status: 404 });
+        }
+        if (e instanceof TripPublishError) {
+            return data({ error: e.message }, { status: 422 });
+        }
+
+        console.error('API Error:', e instanceof Error ? e.message : 'Unknown error');
+        return data({ error: e instanceof Error ? e.message : 'Failed to create payment link' }, { status: 500 });
+    }
+}, { admin: true })
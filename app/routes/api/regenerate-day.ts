@@ -0,0 +1,34 @@
+import { data, type ActionFunctionArgs } from "react-router";
+import { withApiAuth } from "~/lib/api-auth";
+import { TripGenerationError } from "~/lib/trip-generation";
+import { regenerateTripDay, TripNotFoundError } from "~/lib/trip-pipeline";
+
+// The revision is credited to the signed-in admin, never to a user named in the body.
+export const action = withApiAuth(async ({ request, params }: ActionFunctionArgs, { accountId, user }) => {
+    try {
+        const { tripId } = params;
+        const { day, instructions } = await request.json();
+
+        if (!tripId || !Number.isInteger(Number(day))) {
+            return data({ error: 'Trip ID and day are required' }, { status: 400 });
+        }
+
+        const dayPlan = await regenerateTripDay(tripId, Number(day), {
+            instructions: typeof instructions === 'string' ? instructions.slice(0, 500) : undefined,
+            signal: request.signal,
+            author: { id: accountId, name: user.name },
+        });
+        return data({ dayPlan });
+    } catch (e) {
+        if (e instanceof TripNotFoundError) {
+            return data({ error: e.message }, { status: 404 });
+        }
+        if (e instanceof TripGenerationError) {
+            console.error('Day validation failed:', e.issues);
+            return data({ error: e.message, issues: e.issues }, { status: 422 });
+        }
+
+        console.error('API Error:', e instanceof Error ? e.message : 'Unknown error');
+        return data({ error: e instanceof Error ? e.message : 'Failed to regenerate day' }, { status: 500 });
+    }
+}, { admin: true })
@@ -0,0 +1,26 @@
+import { data, type ActionFunctionArgs } from "react-router";
+import { AppwriteException } from "node-appwrite";
+import { withApiAuth } from "~/lib/api-auth";
+import { rollbackTrip, TripNotFoundError } from "~/lib/trip-pipeline";
+
+// The rollback is credited to the signed-in admin, never to an author named in the body.
+export const action = withApiAuth(async ({ request, params }: ActionFunctionArgs, { accountId, user }) => {
+    try {
+        const { tripId } = params;
+        const { revisionId } = await request.json();
+
+        if (!tripId || typeof revisionId !== 'string' || !revisionId) {
+            return data({ error: 'Trip ID and revision ID are required' }, { status: 400 });
+        }
+
+        const revision = await rollbackTrip(tripId, revisionId, { id: accountId, name: user.name });
+        return data({ revisionId: revision.id });
+    } catch (e) {
+        if (e instanceof TripNotFoundError || (e instanceof AppwriteException && e.code === 404)) {
+            return data({ error: e.message }, { status: 404 });
+        }
+
+        console.error('API Error:', e instanceof Error ? e.message : 'Unknown error');
+        return data({ error: e instanceof Error ? e.message : 'Failed to roll back trip' }, { status: 500 });
+    }
+}, { admin: true })
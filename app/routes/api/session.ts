@@ -0,0 +1,29 @@
+import { data, type ActionFunctionArgs } from "react-router";
+import { AuthorizationError, authenticateAccount } from "~/lib/api-auth";
+import { createUserSession, destroyUserSession } from "~/lib/session";
+import { ensureUserProfile } from "~/lib/user-accounts";
+
+// Only pictures served over HTTPS, like provider photos and Appwrite avatars, are stored.
+const readImageUrl = async (request: Request) => {
+    const { imageUrl } = await request.json().catch(() => ({}));
+    return typeof imageUrl === 'string' && imageUrl.startsWith('https://') ? imageUrl : null;
+}
+
+// Trades the browser's Appwrite session, proven by a JWT, for the server session
+// cookie, creating or linking the user's profile on their first sign-in.
+const signIn = async ({ request }: ActionFunctionArgs) => {
+    try {
+        const account = await authenticateAccount(request);
+        const user = await ensureUserProfile(account, { imageUrl: await readImageUrl(request) });
+        if (user.suspended) throw new AuthorizationError('Your account has been suspended', 403);
+
+        return data({ status: user.status }, { headers: { 'Set-Cookie': await createUserSession(account.$id) } });
+    } catch (e) {
+        if (e instanceof AuthorizationError) return data({ error: e.message }, { status: e.status });
+        throw e;
+    }
+}
+
+export const action = async (args: ActionFunctionArgs) => args.request.method === 'DELETE'
+    ? data({ signedOut: true }, { headers: { 'Set-Cookie': await destroyUserSession(args.request) } })
+    : signIn(args);
@@ -0,0 +1,49 @@
+import { data, type ActionFunctionArgs } from "react-router";
+import type Stripe from "stripe";
+import { cancelExpiredBooking, markBookingRefunded, recordPaidBooking } from "~/lib/bookings";
+import { constructWebhookEvent } from "~/lib/stripe";
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+    const signature = request.headers.get('Stripe-Signature');
+    if (!signature) return data({ error: 'Missing Stripe-Signature header' }, { status: 400 });
+
+    // Signatures are computed over the raw body, so it must not be parsed first.
+    const payload = await request.text();
+
+    let event: Stripe.Event;
+    try {
+        event = await constructWebhookEvent(payload, signature);
+    } catch (e) {
+        console.error('Webhook signature verification failed:', e instanceof Error ? e.message : e);
+        return data({ error: 'Invalid signature' }, { status: 400 });
+    }
+
+    try {
+        switch (event.type) {
+            case 'checkout.session.completed':
+            case 'checkout.session.async_payment_succeeded': {
+                const session = event.data.object;
+                if (session.payment_status === 'paid') {
+                    const booking = await recordPaidBooking(session);
+                    console.log(`Recorded booking ${booking.id} for trip ${booking.tripId}`);
+                }
+                break;
+            }
+            case 'checkout.session.expired':
+            case 'checkout.session.async_payment_failed':
+                await cancelExpiredBooking(event.data.object);
+                break;
+            case 'charge.refunded':
+                await markBookingRefunded(event.data.object);
+                break;
+            default:
+                break;
+        }
+
+        return data({ received: true });
+    } catch (e) {
+        // A non-2xx response makes Stripe retry the delivery later.
+        console.error('Webhook handling failed:', e instanceof Error ? e.message : 'Unknown error');
+        return data({ error: 'Failed to handle event' }, { status: 500 });
+    }
+}
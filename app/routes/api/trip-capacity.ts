@@ -0,0 +1,27 @@
+import { data, type ActionFunctionArgs } from "react-router";
+import { AppwriteException } from "node-appwrite";
+import { withApiAuth } from "~/lib/api-auth";
+import { BookingError, updateTripCapacity } from "~/lib/bookings";
+
+export const action = withApiAuth(async ({ request, params }: ActionFunctionArgs) => {
+    try {
+        const { tripId } = params;
+        const { capacity } = await request.json();
+
+        if (!tripId || (capacity !== null && typeof capacity !== 'number')) {
+            return data({ error: 'Trip ID and a capacity, or null for unlimited, are required' }, { status: 400 });
+        }
+
+        return data({ capacity: await updateTripCapacity(tripId, capacity) });
+    } catch (e) {
+        if (e instanceof BookingError) {
+            return data({ error: e.message }, { status: e.status });
+        }
+        if (e instanceof AppwriteException && e.code === 404) {
+            return data({ error: 'Trip not found' }, { status: 404 });
+        }
+
+        console.error('API Error:', e instanceof Error ? e.message : 'Unknown error');
+        return data({ error: e instanceof Error ? e.message : 'Failed to update capacity' }, { status: 500 });
+    }
+}, { admin: true })
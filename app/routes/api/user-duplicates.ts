@@ -0,0 +1,31 @@
+import { data, type ActionFunctionArgs, type LoaderFunctionArgs } from "react-router";
+import { withApiAuth } from "~/lib/api-auth";
+import { findDuplicateUsers, mergeUsers } from "~/lib/user-accounts";
+
+export const loader = withApiAuth(async (_: LoaderFunctionArgs) => {
+    try {
+        return data({ groups: await findDuplicateUsers() });
+    } catch (e) {
+        console.error('API Error:', e instanceof Error ? e.message : 'Unknown error');
+        return data({ error: 'Failed to look for duplicate users' }, { status: 500 });
+    }
+}, { admin: true })
+
+export const action = withApiAuth(async ({ request }: ActionFunctionArgs, { user: admin }) => {
+    try {
+        const { primaryId, duplicateIds } = await request.json();
+
+        if (typeof primaryId !== 'string' || !Array.isArray(duplicateIds) || duplicateIds.length === 0
+            || !duplicateIds.every((id) => typeof id === 'string' && id !== primaryId)) {
+            return data({ error: 'A primary user ID and the IDs of other users to merge into it are required' }, { status: 400 });
+        }
+
+        const result = await mergeUsers(primaryId, duplicateIds);
+        console.log(`Admin ${admin.accountId} merged users ${duplicateIds.join(', ')} into ${primaryId}`);
+
+        return data(result);
+    } catch (e) {
+        console.error('API Error:', e instanceof Error ? e.message : 'Unknown error');
+        return data({ error: e instanceof Error ? e.message : 'Failed to merge users' }, { status: 500 });
+    }
+}, { admin: true })
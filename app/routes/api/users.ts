@@ -0,0 +1,26 @@
+import { data, type ActionFunctionArgs } from "react-router";
+import { AuthorizationError, withApiAuth } from "~/lib/api-auth";
+import { applyUserAdminAction, USER_ADMIN_ACTIONS } from "~/lib/user-admin";
+
+export const action = withApiAuth(async ({ request, params }: ActionFunctionArgs, { user: admin }) => {
+    try {
+        const { userId } = params;
+        const { action } = await request.json();
+
+        if (!userId || !USER_ADMIN_ACTIONS.includes(action)) {
+            return data({ error: `User ID and one of ${USER_ADMIN_ACTIONS.join(', ')} are required` }, { status: 400 });
+        }
+
+        const result = await applyUserAdminAction(admin, userId, action as UserAdminAction);
+        console.log(`Admin ${admin.accountId} applied "${action}" to user ${userId}`);
+
+        return data(result);
+    } catch (e) {
+        if (e instanceof AuthorizationError) {
+            return data({ error: e.message }, { status: e.status });
+        }
+
+        console.error('API Error:', e instanceof Error ? e.message : 'Unknown error');
+        return data({ error: e instanceof Error ? e.message : 'Failed to update user' }, { status: 500 });
+    }
+}, { admin: true })
@@ -0,0 +1,56 @@
+import { redirect, type ClientLoaderFunctionArgs } from "react-router"
+import { logoutUser, storeUserData } from "~/appwrite/auth"
+import { account } from "~/appwrite/client"
+import { safeRedirectPath } from "~/lib/utils"
+
+// Every sign-in method ends here signed in to Appwrite, except magic links, which
+// bring a token to exchange first. The server learns about the session through
+// `/api/session`, which sets the session cookie its loaders read and creates or
+// links the user's profile.
+export async function clientLoader({ request }: ClientLoaderFunctionArgs) {
+    const { searchParams } = new URL(request.url)
+    const redirectTo = searchParams.get('redirectTo')
+    const userId = searchParams.get('userId')
+    const secret = searchParams.get('secret')
+
+    try {
+        if (userId && secret) await account.createSession(userId, secret)
+
+        const response = await storeUserData()
+        const result: { status?: UserData['status']; error?: string } = await response.json()
+
+        if (response.status === 403) {
+            await logoutUser()
+            return redirect('/sign-in?suspended=1')
+        }
+        if (response.status === 412) {
+            await logoutUser()
+            return redirect('/sign-in?error=unverified')
+        }
+        if (response.status === 409) {
+            await logoutUser()
+            return redirect('/sign-in?error=email-in-use')
+        }
+        if (!response.ok) throw new Error(result.error ?? `Request failed: ${response.status}`)
+
+        return redirect(safeRedirectPath(redirectTo, result.status === 'admin' ? '/dashboard' : '/'))
+    } catch (e) {
+        console.error('Error completing sign-in:', e)
+        await logoutUser()
+        return redirect('/sign-in?error=1')
+    }
+}
+
+export function HydrateFallback() {
+    return (
+        <main className="auth">
+            <section className="size-full glassmorphism flex-center px-6">
+                <p className="p-18-semibold text-dark-100">Signing you in...</p>
+            </section>
+        </main>
+    )
+}
+
+const AuthCallback = () => null
+
+export default AuthCallback
@@ -0,0 +1,33 @@
+import { redirect, type ClientLoaderFunctionArgs } from "react-router"
+import { account } from "~/appwrite/client"
+
+// Email confirmation links land here. Confirming doesn't sign anyone in, so the
+// user goes back to the sign-in page to finish with their password.
+export async function clientLoader({ request }: ClientLoaderFunctionArgs) {
+    const { searchParams } = new URL(request.url)
+    const userId = searchParams.get('userId')
+    const secret = searchParams.get('secret')
+
+    try {
+        if (!userId || !secret) throw new Error('Missing confirmation parameters')
+        await account.updateVerification(userId, secret)
+        return redirect('/sign-in?verified=1')
+    } catch (e) {
+        console.error('Error confirming email:', e)
+        return redirect('/sign-in?error=1')
+    }
+}
+
+export function HydrateFallback() {
+    return (
+        <main className="auth">
+            <section className="size-full glassmorphism flex-center px-6">
+                <p className="p-18-semibold text-dark-100">Confirming your email...</p>
+            </section>
+        </main>
+    )
+}
+
+const AuthVerify = () => null
+
+export default AuthVerify
@@ -1,37 +1,21 @@
-import { useNavigate } from "react-router";
-import { logoutUser } from "~/appwrite/auth";
+import { Outlet, type LoaderFunctionArgs } from "react-router";
+import { RootNavbar } from "components";
+import { getSessionUser } from "~/lib/session";
 
-// const navigate = useNavigate();
+// Public pages are open to visitors, so a missing session resolves to no user
+// instead of a redirect to sign-in.
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+    const user = await getSessionUser(request)
+    return user && !user.suspended ? user : null
+}
 
 const PageLayout = () => {
-  const navigate = useNavigate();
-
-  const handleLogout = async () => {
-    await logoutUser();
-    navigate('/sign-in');
-  }
-
-  return (
-    <div>
-      <button 
-      onClick={handleLogout} 
-      className="cursor-pointer"
-      >
-        <img 
-        src="/assets/icons/logout.svg" 
-        alt="Log Out" 
-        className="size-6" 
-        />
-      </button>
-
-      <button onClick={() => {navigate('/dashboard')}}
-        className="cursor-pointer bg-amber-600 text-white p-2 rounded-md m-4"
-        >
-        Go to Dashboard
-      </button>
-    </div>
-  )
+    return (
+        <div className="bg-light-200">
+            <RootNavbar />
+            <Outlet />
+        </div>
+    )
 }
 
-
-export default PageLayout
\ No newline at end of file
+export default PageLayout
@@ -4,25 +4,59 @@ import type { Route } from "./+types/payment-success";
 import {ButtonComponent} from "@syncfusion/ej2-react-buttons";
 import confetti from "canvas-confetti";
 import {LEFT_CONFETTI, RIGHT_CONFETTI} from "~/constants";
+import {confirmBookingForSession} from "~/lib/bookings";
+import {formatExactMoney} from "~/lib/money";
 
-export async function loader ({ params }: LoaderFunctionArgs) {
-    return params;
+export async function loader ({ params, request }: LoaderFunctionArgs) {
+    const sessionId = new URL(request.url).searchParams.get('session_id');
+    if (!sessionId) return { tripId: params.tripId, booking: null };
+
+    try {
+        const booking = await confirmBookingForSession(sessionId);
+        return { tripId: params.tripId, booking: booking?.tripId === params.tripId ? booking : null };
+    } catch (e) {
+        console.error('Error confirming booking:', e);
+        return { tripId: params.tripId, booking: null };
+    }
 }
 
 const PaymentSuccess = ({ loaderData }: Route.ComponentProps) => {
+    const booking = loaderData?.booking;
+    const isPaid = booking?.status === 'paid';
+
     useEffect(() => {
+        if (!isPaid) return;
         confetti(LEFT_CONFETTI)
         confetti(RIGHT_CONFETTI)
-    }, [])
+    }, [isPaid])
 
     return (
         <main className="payment-success wrapper">
             <section>
                 <article>
-                    <img src="/assets/icons/check.svg" className="size-24" />
-                    <h1>Thank & Welcome Aboard!</h1>
+                    {isPaid ? (
+                        <>
+                            <img src="/assets/icons/check.svg" className="size-24" />
+                            <h1>Thank & Welcome Aboard!</h1>
 
-                    <p>Your trip is booked - can't wait to have you on this adventure. Get ready to explore & make memories! ✨</p>
+                            <p>Your trip is booked - can't wait to have you on this adventure. Get ready to explore & make memories! ✨</p>
+                            <p>
+                                {booking.seats} {booking.seats === 1 ? 'seat' : 'seats'} for {booking.travelerNames.join(', ')}
+                                {' · '}{formatExactMoney({ amount: booking.amountTotal, currency: booking.currency.toUpperCase() })}
+                            </p>
+                        </>
+                    ) : (
+                        <>
+                            <h1>{booking?.status === 'refunded' ? 'This trip is fully booked' : booking ? "We're confirming your payment" : "We couldn't find this booking"}</h1>
+                            <p>
+                                {booking?.status === 'refunded'
+                                    ? 'The last seats went before your payment came through, so we have refunded it.'
+                                    : booking
+                                    ? 'Your booking is still being processed. Refresh this page in a moment to see its status.'
+                                    : 'If you were charged, your booking will appear once the payment is confirmed.'}
+                            </p>
+                        </>
+                    )}
                     
                     <Link to={`/travel/${loaderData?.tripId}`} className="w-full">
                         <ButtonComponent className="button-class !h-11 !w-full">
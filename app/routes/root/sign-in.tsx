@@ -1,20 +1,92 @@
 import { ButtonComponent } from "@syncfusion/ej2-react-buttons"
-import { Link, redirect } from "react-router"
-import { loginWithGoogle } from "~/appwrite/auth"
+import { useState, type FormEvent } from "react"
+import { Link, redirect, useNavigate, useSearchParams, type ClientLoaderFunctionArgs, type LoaderFunctionArgs } from "react-router"
+import { OAuthProvider } from "appwrite"
+import { loginWithEmail, loginWithOAuth, sendMagicLink, signUpWithEmail } from "~/appwrite/auth"
 import { account,client } from "~/appwrite/client"
+import { getSessionUser } from "~/lib/session"
+import { cn, safeRedirectPath } from "~/lib/utils"
 
-export async function clientLoader() {
-    try{
-        const user = await account.get()
-        if(user.$id) return redirect('/dashboard') // Redirect to dashboard instead of root
-        
-    } catch(e){
-        console.log('Error loading client:', e)
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+    const user = await getSessionUser(request)
+    if (user && !user.suspended) {
+        const redirectTo = new URL(request.url).searchParams.get('redirectTo')
+        throw redirect(safeRedirectPath(redirectTo, user.status === 'admin' ? '/dashboard' : '/'))
+    }
+    return null
+}
+
+// A browser still signed in to Appwrite but without a server session, such as one
+// from before session cookies, finishes signing in through the callback.
+export async function clientLoader({ request, serverLoader }: ClientLoaderFunctionArgs) {
+    await serverLoader()
 
+    const { searchParams, search } = new URL(request.url)
+    if (searchParams.has('error')) return null
+
+    try {
+        const user = await account.get()
+        if (user.$id) return redirect(`/auth/callback${search}`)
+    } catch (e) {
+        console.log('No active session:', e)
     }
+    return null
 }
+clientLoader.hydrate = true as const
+
+type EmailMode = 'sign-in' | 'sign-up' | 'magic-link'
+
+const EMAIL_MODES: { mode: EmailMode; label: string; submit: string }[] = [
+    { mode: 'sign-in', label: 'Sign in', submit: 'Sign in with email' },
+    { mode: 'sign-up', label: 'Sign up', submit: 'Create account' },
+    { mode: 'magic-link', label: 'Email link', submit: 'Email me a sign-in link' },
+]
+
+const OAUTH_PROVIDERS = [
+    { provider: OAuthProvider.Google, label: 'Sign in with Google', icon: 'assets/icons/google.svg', className: 'button-class' },
+    { provider: OAuthProvider.Github, label: 'Sign in with GitHub', icon: 'assets/icons/github.svg', className: 'button-class-secondary' },
+] as const
 
 const SignIn = () => {
+  const [searchParams] = useSearchParams()
+  const navigate = useNavigate()
+  const [mode, setMode] = useState<EmailMode>('sign-in')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+  const redirectTo = searchParams.get('redirectTo')
+
+  const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    const form = new FormData(e.currentTarget)
+    const email = String(form.get('email') ?? '').trim()
+    const password = String(form.get('password') ?? '')
+
+    setIsSubmitting(true)
+    setError(null)
+    try {
+        if (mode === 'magic-link') {
+            await sendMagicLink(email, redirectTo)
+            setNotice(`We sent a sign-in link to ${email}. Open it to continue.`)
+            return
+        }
+
+        const signedIn = mode === 'sign-up'
+            ? await signUpWithEmail({ name: String(form.get('name') ?? '').trim(), email, password })
+            : await loginWithEmail(email, password)
+        if (!signedIn) {
+            setNotice(`We sent a confirmation link to ${email}. Open it, then sign in.`)
+            return
+        }
+
+        navigate(`/auth/callback${redirectTo ? `?redirectTo=${encodeURIComponent(redirectTo)}` : ''}`)
+    } catch (e) {
+        setError(e instanceof Error ? e.message : 'Sign-in failed. Please try again.')
+    } finally {
+        setIsSubmitting(false)
+    }
+  }
+
 console.log("Appwrite endpoint:", client.config.endpoint);
   return (
     <main className="auth">
@@ -28,21 +100,86 @@ console.log("Appwrite endpoint:", client.config.endpoint);
                 </header>
                 <article>
                     <h2 className="p-28-semibold text-dark-100 text-center">Start Your Travel Journey</h2>
-                    <p className="p-16-regular text-center text-gray-100 !leading-7">Sign in with Google to manage destinations, itineraries, and user activity with ease.</p>
+                    <p className="p-16-regular text-center text-gray-100 !leading-7">Sign in to manage destinations, itineraries, and user activity with ease.</p>
                 </article>
-                <ButtonComponent
-                type="button" 
-                iconCss="e-search-icon" 
-                className="button-class !h-11 !w-full"
-                onClick={loginWithGoogle}
-                >
-                    <img
-                        src="assets/icons/google.svg"
-                        alt="Sign in with Google"
-                        className="size-5"
-                    />
-                    <span className="p-18-semibold text-white">Sign in with Google</span>
-                </ButtonComponent>
+                {searchParams.has('verified') && (
+                    <p className="p-16-regular text-center text-dark-100">Your email is confirmed. Sign in to continue.</p>
+                )}
+                {searchParams.get('error') === 'unverified' ? (
+                    <p className="error">Confirm your email address with the link we sent you, then sign in again.</p>
+                ) : searchParams.get('error') === 'email-in-use' ? (
+                    <p className="error">This email already belongs to an account. Sign in the way you did before, or use a provider that verifies your email.</p>
+                ) : searchParams.has('error') && (
+                    <p className="error">Sign-in didn't complete. Please try again.</p>
+                )}
+                {searchParams.has('suspended') && (
+                    <p className="error">Your account has been suspended. Contact an administrator to restore access.</p>
+                )}
+
+                <div className="flex flex-col gap-3">
+                    {OAUTH_PROVIDERS.map(({ provider, label, icon, className }) => (
+                        <ButtonComponent
+                        key={provider}
+                        type="button"
+                        className={`${className} !h-11 !w-full`}
+                        onClick={() => loginWithOAuth(provider, redirectTo)}
+                        >
+                            <img src={icon} alt={label} className="size-5" />
+                            <span className={cn('p-18-semibold', className === 'button-class' ? 'text-white' : 'text-dark-100')}>{label}</span>
+                        </ButtonComponent>
+                    ))}
+                </div>
+
+                <div className="flex items-center gap-3 my-6 text-sm text-gray-100">
+                    <span className="flex-1 border-t border-light-400" />
+                    or use your email
+                    <span className="flex-1 border-t border-light-400" />
+                </div>
+
+                <nav className="flex gap-2 mb-4">
+                    {EMAIL_MODES.map((option) => (
+                        <button
+                            key={option.mode}
+                            type="button"
+                            onClick={() => { setMode(option.mode); setError(null); setNotice(null) }}
+                            className={cn('flex-1 py-1.5 rounded-full border text-sm font-semibold cursor-pointer', mode === option.mode
+                                ? 'bg-primary-100 border-primary-100 text-white'
+                                : 'border-light-400 text-gray-500')}
+                        >
+                            {option.label}
+                        </button>
+                    ))}
+                </nav>
+
+                {notice ? (
+                    <p className="p-16-regular text-center text-dark-100">
+                        {notice}
+                    </p>
+                ) : (
+                    <form onSubmit={handleSubmit} className="flex flex-col gap-3">
+                        {mode === 'sign-up' && (
+                            <input name="name" type="text" autoComplete="name" placeholder="Name" className="form-input" />
+                        )}
+                        <input name="email" type="email" autoComplete="email" placeholder="Email" required className="form-input" />
+                        {mode !== 'magic-link' && (
+                            <input
+                                name="password"
+                                type="password"
+                                autoComplete={mode === 'sign-up' ? 'new-password' : 'current-password'}
+                                placeholder="Password"
+                                minLength={8}
+                                required
+                                className="form-input"
+                            />
+                        )}
+                        {error && <p className="error">{error}</p>}
+                        <ButtonComponent type="submit" className="button-class !h-11 !w-full" disabled={isSubmitting}>
+                            <span className="p-16-semibold text-white">
+                                {isSubmitting ? 'Please wait...' : EMAIL_MODES.find((option) => option.mode === mode)!.submit}
+                            </span>
+                        </ButtonComponent>
+                    </form>
+                )}
             </div>
         </section>
         
@@ -1,37 +1,38 @@
 import {Link, type LoaderFunctionArgs} from "react-router";
 import {getAllTrips, getTripById} from "~/appwrite/trips";
 import type { Route } from './+types/travel-detail';
-import {cn, getFirstWord, parseTripData} from "~/lib/utils";
-import {Header, InfoPill, TripCard} from "../../../components";
-import {ButtonComponent, ChipDirective, ChipListComponent, ChipsDirective} from "@syncfusion/ej2-react-buttons";
+import {cn, getFirstWord} from "~/lib/utils";
+import {toTrip} from "~/lib/trip-attributes";
+import {BookTrip, CostBreakdown, Header, InfoPill, Price, TripCard, TripMap} from "../../../components";
+import {getSeatsTaken} from "~/lib/bookings";
+import {ChipDirective, ChipListComponent, ChipsDirective} from "@syncfusion/ej2-react-buttons";
 
 export const loader = async ({ params }: LoaderFunctionArgs) => {
     const { tripId } = params;
     if(!tripId) throw new Error ('Trip ID is required');
 
-    const [trip, trips] = await Promise.all([
+    const [trip, trips, seatsTaken] = await Promise.all([
         getTripById(tripId),
-        getAllTrips(4, 0)
+        getAllTrips(4, 0),
+        getSeatsTaken(tripId)
     ]);
 
     return {
         trip,
-        allTrips: trips.allTrips.map(({ $id, tripDetails, imageUrls }) => ({
-            id: $id,
-            ...parseTripData(tripDetails),
-            imageUrls: imageUrls ?? []
-        }))
+        tripData: trip ? toTrip(trip) : null,
+        seatsLeft: typeof trip?.capacity === 'number' ? Math.max(trip.capacity - seatsTaken, 0) : null,
+        allTrips: trips.allTrips.flatMap((document) => toTrip(document) ?? [])
     }
 }
 
 const TravelDetail = ({ loaderData }: Route.ComponentProps) => {
     const imageUrls = loaderData?.trip?.imageUrls || [];
-    const tripData = parseTripData(loaderData?.trip?.tripDetails);
-    const paymentLink = loaderData?.trip?.payment_link;
+    const { tripData } = loaderData;
+    const tripId = loaderData?.trip?.$id;
 
     const {
         name, duration, itinerary, travelStyle,
-        groupType, budget, interests, estimatedPrice,
+        groupType, budget, interests, estimatedPrice, price,
         description, bestTimeToVisit, weatherInfo, country
     } = tripData || {};
     const allTrips = loaderData.allTrips as Trip[] | [];
@@ -131,11 +132,13 @@ const TravelDetail = ({ loaderData }: Route.ComponentProps) => {
                         <p>{budget}, {groupType} and {interests}</p>
                     </article>
 
-                    <h2>{estimatedPrice}</h2>
+                    <h2><Price money={price} fallback={estimatedPrice} /></h2>
                 </section>
 
                 <p className="text-sm md:text-lg font-normal text-dark-400">{description}</p>
 
+                {tripData && <TripMap trip={tripData} />}
+
                 <ul className="itinerary">
                     {itinerary?.map((dayPlan: DayPlan, index: number) => (
                         <li key={index}>
@@ -155,6 +158,8 @@ const TravelDetail = ({ loaderData }: Route.ComponentProps) => {
                     ))}
                 </ul>
 
+                {tripData && <CostBreakdown trip={tripData} />}
+
                 {visitTimeAndWeatherInfo.map((section) => (
                     <section key={section.title} className="visit">
                         <div>
@@ -171,14 +176,9 @@ const TravelDetail = ({ loaderData }: Route.ComponentProps) => {
                     </section>
                 ))}
 
-                <a href={paymentLink} className="flex">
-                    <ButtonComponent className="button-class" type="submit">
-                        <span className="p-16-semibold text-white">
-                            Pay to join the trip
-                        </span>
-                        <span className="price-pill">{estimatedPrice}</span>
-                    </ButtonComponent>
-                </a>
+                {tripId && (
+                    <BookTrip tripId={tripId} price={price} seatsLeft={loaderData.seatsLeft} />
+                )}
 
             </section>
             </div>
@@ -195,7 +195,7 @@ const TravelDetail = ({ loaderData }: Route.ComponentProps) => {
                             imageUrl={trip.imageUrls[0]}
                             location={trip.itinerary?.[0]?.location ?? ""}
                             tags={[trip.interests, trip.travelStyle]}
-                            price={trip.estimatedPrice}
+                            price={trip.price}
                         />
                     ))}
                 </div>
@@ -1,9 +1,179 @@
-import React from 'react'
+import type { Models } from "appwrite";
+import { Link, useSearchParams, type LoaderFunctionArgs } from "react-router";
+import { ButtonComponent } from "@syncfusion/ej2-react-buttons";
+import { PagerComponent } from "@syncfusion/ej2-react-grids";
+import { FeaturedDestination, TripCard } from "components";
+import { getAllTrips } from "~/appwrite/trips";
+import { toTrip } from "~/lib/trip-attributes";
+import type { Route } from './+types/travel-page';
 
-const TravelPage = () => {
-  return (
-    <div>TravelPage</div>
-  )
+const PAGE_SIZE = 8;
+const FEATURED_COUNT = 5;
+
+const toTrips = (documents: Models.Document[]) => documents.flatMap((document) => toTrip(document) ?? []);
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+    const url = new URL(request.url);
+    const page = Math.max(parseInt(url.searchParams.get('page') || '1', 10) || 1, 1);
+
+    const [featured, trips] = await Promise.all([
+        getAllTrips(FEATURED_COUNT, 0),
+        getAllTrips(PAGE_SIZE, (page - 1) * PAGE_SIZE)
+    ]);
+
+    return {
+        featuredTrips: toTrips(featured.allTrips),
+        trips: toTrips(trips.allTrips),
+        total: trips.total,
+        page
+    }
+}
+
+const countActivities = (trip: Trip) =>
+    trip.itinerary?.reduce((total, dayPlan) => total + dayPlan.activities.length, 0) ?? 0;
+
+const TravelPage = ({ loaderData }: Route.ComponentProps) => {
+    const featuredTrips = loaderData.featuredTrips as Trip[] | [];
+    const trips = loaderData.trips as Trip[] | [];
+    const [, setSearchParams] = useSearchParams();
+
+    const [bigTrip, ...smallTrips] = featuredTrips;
+
+    const handlePageChange = (page: number) => {
+        setSearchParams({ page: String(page) }, { preventScrollReset: true });
+    };
+
+    return (
+        <main className="flex flex-col">
+            <section className="travel-hero">
+                <div>
+                    <section className="wrapper">
+                        <article>
+                            <h1 className="p-72-bold text-dark-100">
+                                Plan Your Trip with Ease
+                            </h1>
+
+                            <p>
+                                Customize your travel itinerary in minutes—pick your destination, set your preferences, and explore with confidence.
+                            </p>
+                        </article>
+
+                        <a href="#trips">
+                            <ButtonComponent type="button" className="button-class !h-11 !w-full md:!w-[240px]">
+                                <span className="p-16-semibold text-white">Get Started</span>
+                            </ButtonComponent>
+                        </a>
+                    </section>
+                </div>
+            </section>
+
+            {bigTrip && (
+                <section className="pt-20 wrapper flex flex-col gap-10 h-full">
+                    <article className="flex flex-col gap-3">
+                        <h2 className="p-24-semibold text-dark-100">Featured Travel Destinations</h2>
+                        <p className="text-sm md:text-lg font-normal text-gray-100">
+                            Check out some of the best places you can visit around the world
+                        </p>
+                    </article>
+
+                    <div className="featured">
+                        <article>
+                            <FeaturedDestination
+                                id={bigTrip.id}
+                                bgImage={bigTrip.imageUrls[0]}
+                                containerClass="h-1/3 lg:h-1/2"
+                                bigCard
+                                title={bigTrip.name}
+                                price={bigTrip.price}
+                                activityCount={countActivities(bigTrip)}
+                            />
+
+                            <div className="travel-featured">
+                                {smallTrips.slice(0, 2).map((trip) => (
+                                    <FeaturedDestination
+                                        key={trip.id}
+                                        id={trip.id}
+                                        bgImage={trip.imageUrls[0]}
+                                        title={trip.name}
+                                        price={trip.price}
+                                        activityCount={countActivities(trip)}
+                                    />
+                                ))}
+                            </div>
+                        </article>
+
+                        {smallTrips.length > 2 && (
+                            <div className="flex flex-col gap-[30px]">
+                                {smallTrips.slice(2).map((trip) => (
+                                    <FeaturedDestination
+                                        key={trip.id}
+                                        id={trip.id}
+                                        bgImage={trip.imageUrls[0]}
+                                        containerClass="w-full h-[240px]"
+                                        title={trip.name}
+                                        price={trip.price}
+                                        activityCount={countActivities(trip)}
+                                    />
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                </section>
+            )}
+
+            <section id="trips" className="py-20 wrapper flex flex-col gap-10">
+                <article className="flex flex-col gap-3">
+                    <h2 className="p-24-semibold text-dark-100">Handpicked Trips</h2>
+                    <p className="text-sm md:text-lg font-normal text-gray-100">
+                        Browse well-planned trips designed for your travel style
+                    </p>
+                </article>
+
+                {trips.length === 0 ? (
+                    <p className="text-sm md:text-lg text-gray-100">No trips are available yet. Check back soon!</p>
+                ) : (
+                    <div className="trip-grid">
+                        {trips.map((trip) => (
+                            <TripCard
+                                key={trip.id}
+                                id={trip.id}
+                                name={trip.name}
+                                imageUrl={trip.imageUrls[0]}
+                                location={trip.itinerary?.[0]?.location ?? ""}
+                                tags={[trip.interests, trip.travelStyle]}
+                                price={trip.price}
+                            />
+                        ))}
+                    </div>
+                )}
+
+                {loaderData.total > PAGE_SIZE && (
+                    <PagerComponent
+                        totalRecordsCount={loaderData.total}
+                        pageSize={PAGE_SIZE}
+                        currentPage={loaderData.page}
+                        click={(args) => handlePageChange(args.currentPage)}
+                        cssClass="!mb-4"
+                    />
+                )}
+            </section>
+
+            <footer className="h-28 bg-white">
+                <div className="wrapper footer-container">
+                    <Link to="/">
+                        <img src="/assets/icons/logo.svg" alt="logo" className="size-[30px]" />
+                        <h1>Tourvisto</h1>
+                    </Link>
+
+                    <div className="flex items-center gap-4 text-sm text-gray-100">
+                        {['Terms & Conditions', 'Privacy Policy'].map((item) => (
+                            <span key={item}>{item}</span>
+                        ))}
+                    </div>
+                </div>
+            </footer>
+        </main>
+    )
 }
 
-export default TravelPage
\ No newline at end of file
+export default TravelPage
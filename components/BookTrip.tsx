@@ -0,0 +1,129 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router";
+import { ButtonComponent } from "@syncfusion/ej2-react-buttons";
+import { apiFetch } from "~/appwrite/auth";
+import { account } from "~/appwrite/client";
+import { cn } from "~/lib/utils";
+import Price from "./Price";
+
+interface Props {
+    tripId: string;
+    price?: Money;
+    seatsLeft: number | null;
+}
+
+const BookTrip = ({ tripId, price, seatsLeft }: Props) => {
+    const [user, setUser] = useState<{ name: string } | null>(null)
+    const [travelerNames, setTravelerNames] = useState<string[]>([''])
+    const [loading, setLoading] = useState(false)
+    const [error, setError] = useState<string | null>(null)
+
+    useEffect(() => {
+        account.get()
+            .then(({ name }) => {
+                setUser({ name })
+                setTravelerNames([name])
+            })
+            .catch(() => setUser(null))
+    }, [])
+
+    const soldOut = seatsLeft !== null && seatsLeft <= 0
+    const maxTravelers = Math.min(seatsLeft ?? 10, 10)
+
+    const handleBook = async () => {
+        if (!user) return
+        setLoading(true)
+        setError(null)
+
+        try {
+            const response = await apiFetch(`/api/trips/${tripId}/bookings`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ travelerNames }),
+            })
+            const result: { url?: string; error?: string } = await response.json()
+
+            if (!response.ok || !result.url) throw new Error(result.error ?? `Request failed: ${response.status}`)
+
+            window.location.href = result.url
+        } catch (e) {
+            console.error('Error creating booking:', e)
+            setError(e instanceof Error ? e.message : 'Failed to start checkout')
+            setLoading(false)
+        }
+    }
+
+    if (soldOut) {
+        return <p className="p-18-semibold text-dark-100">This trip is fully booked.</p>
+    }
+
+    if (!user) {
+        return (
+            <Link to="/sign-in" className="flex">
+                <ButtonComponent className="button-class" type="button">
+                    <span className="p-16-semibold text-white">Sign in to book this trip</span>
+                    <span className="price-pill"><Price money={price} /></span>
+                </ButtonComponent>
+            </Link>
+        )
+    }
+
+    return (
+        <section className="flex flex-col gap-4">
+            <div className="flex flex-col gap-1">
+                <h3 className="p-18-semibold text-dark-100">Travelers</h3>
+                {seatsLeft !== null && <p className="text-sm text-gray-500">{seatsLeft} seats left</p>}
+            </div>
+
+            {travelerNames.map((name, i) => (
+                <div key={i} className="flex gap-2 items-center">
+                    <input
+                        className="form-input flex-1"
+                        placeholder={`Traveler ${i + 1} full name`}
+                        value={name}
+                        onChange={(e) => setTravelerNames(travelerNames.map((existing, j) => j === i ? e.target.value : existing))}
+                        disabled={loading}
+                    />
+                    {travelerNames.length > 1 && (
+                        <button
+                            type="button"
+                            onClick={() => setTravelerNames(travelerNames.filter((_, j) => j !== i))}
+                            className="text-sm font-semibold text-gray-500 cursor-pointer"
+                            disabled={loading}
+                        >
+                            Remove
+                        </button>
+                    )}
+                </div>
+            ))}
+
+            {travelerNames.length < maxTravelers && (
+                <button
+                    type="button"
+                    onClick={() => setTravelerNames([...travelerNames, ''])}
+                    className="w-fit text-sm font-semibold text-primary-100 cursor-pointer"
+                    disabled={loading}
+                >
+                    Add traveler
+                </button>
+            )}
+
+            {error && <p className="error !text-left">{error}</p>}
+
+            <ButtonComponent
+                className="button-class"
+                type="button"
+                onClick={handleBook}
+                disabled={loading || travelerNames.some((name) => !name.trim())}
+            >
+                <img src="/assets/icons/loader.svg" className={cn('size-5 animate-spin', { hidden: !loading })} />
+                <span className="p-16-semibold text-white">
+                    {loading ? 'Redirecting to checkout...' : `Pay to join the trip (${travelerNames.length} ${travelerNames.length === 1 ? 'seat' : 'seats'})`}
+                </span>
+                <span className="price-pill"><Price money={price} /></span>
+            </ButtonComponent>
+        </section>
+    )
+}
+
+export default BookTrip
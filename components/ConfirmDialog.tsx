@@ -0,0 +1,60 @@
+import { useEffect, useRef } from "react";
+import { ButtonComponent } from "@syncfusion/ej2-react-buttons";
+import { cn } from "~/lib/utils";
+
+interface Props {
+    open: boolean;
+    title: string;
+    description: string;
+    confirmText: string;
+    destructive?: boolean;
+    loading?: boolean;
+    error?: string | null;
+    onConfirm: () => void;
+    onCancel: () => void;
+}
+
+const ConfirmDialog = ({ open, title, description, confirmText, destructive, loading, error, onConfirm, onCancel }: Props) => {
+    const dialogRef = useRef<HTMLDialogElement>(null)
+
+    useEffect(() => {
+        const dialog = dialogRef.current
+        if (!dialog) return
+        if (open && !dialog.open) dialog.showModal()
+        if (!open && dialog.open) dialog.close()
+    }, [open])
+
+    return (
+        <dialog
+            ref={dialogRef}
+            onCancel={(e) => {
+                e.preventDefault()
+                if (!loading) onCancel()
+            }}
+            className="m-auto w-full max-w-md rounded-20 p-6 backdrop:bg-dark-100/40 shadow-500"
+        >
+            <div className="flex flex-col gap-4">
+                <h2 className="p-24-semibold text-dark-100">{title}</h2>
+                <p className="text-sm md:text-base text-gray-100">{description}</p>
+                {error && <p className="error !text-left">{error}</p>}
+
+                <div className="flex gap-3 justify-end">
+                    <ButtonComponent type="button" className="button-class-secondary !h-11" onClick={onCancel} disabled={loading}>
+                        <span className="p-16-semibold">Cancel</span>
+                    </ButtonComponent>
+                    <ButtonComponent
+                        type="button"
+                        className={cn('button-class !h-11', { '!bg-red-500': destructive })}
+                        onClick={onConfirm}
+                        disabled={loading}
+                    >
+                        <img src="/assets/icons/loader.svg" className={cn('size-5 animate-spin', { hidden: !loading })} />
+                        <span className="p-16-semibold text-white">{confirmText}</span>
+                    </ButtonComponent>
+                </div>
+            </div>
+        </dialog>
+    )
+}
+
+export default ConfirmDialog
@@ -0,0 +1,114 @@
+import { useRouteLoaderData } from "react-router";
+import {
+    Category,
+    ChartComponent,
+    Inject,
+    Legend,
+    SeriesCollectionDirective,
+    SeriesDirective,
+    StackingColumnSeries,
+    Tooltip
+} from "@syncfusion/ej2-react-charts";
+import type { loader as rootLoader } from "~/root";
+import { convertMoney, DEFAULT_CURRENCY, formatMoney, toMajorUnits, toMinorUnits } from "~/lib/money";
+import { assessBudget, COST_CATEGORIES, COST_CATEGORY_LABELS, DAILY_BUDGET_RANGES, perPersonDailyCost, summarizeTripCosts } from "~/lib/trip-costs";
+
+interface Props {
+    trip: GeneratedTrip;
+}
+
+const categoryColors: Record<CostCategory, string> = {
+    lodging: '#256FF1',
+    transport: '#F79009',
+    food: '#12B76A',
+    activities: '#E31B54',
+};
+
+const budgetWarnings = {
+    under: 'costs less per person per day than a typical',
+    over: 'costs more per person per day than a typical',
+};
+
+// Cost estimates are in the trip's currency; they are shown in the viewer's
+// currency when a rate is available, like `Price`.
+const CostBreakdown = ({ trip }: Props) => {
+    const root = useRouteLoaderData<typeof rootLoader>('root')
+    const summary = summarizeTripCosts(trip)
+    if (!summary) return null
+
+    const tripCurrency = trip.price?.currency ?? DEFAULT_CURRENCY
+    const convert = (amount: number, currency: string) => {
+        const money = { amount: toMinorUnits(amount, tripCurrency), currency: tripCurrency }
+        if (currency === tripCurrency) return money
+        return root?.exchangeRates ? convertMoney(money, currency, root.exchangeRates) : null
+    }
+
+    const displayCurrency = root?.currency && convert(1, root.currency) ? root.currency : tripCurrency
+    const display = (amount: number) => convert(amount, displayCurrency)!
+
+    const perPersonDailyUsd = convert(perPersonDailyCost(summary, trip.groupType), 'USD')
+    const status = perPersonDailyUsd ? assessBudget(trip.budget, toMajorUnits(perPersonDailyUsd)) : null
+    const range = DAILY_BUDGET_RANGES[trip.budget]
+
+    const chartData = summary.days.map((day) => ({
+        day: `Day ${day.day}`,
+        ...Object.fromEntries(COST_CATEGORIES.map((category) => [category, toMajorUnits(display(day.byCategory[category]))])),
+    }))
+
+    return (
+        <section className="flex flex-col gap-5">
+            <div className="flex flex-wrap items-end justify-between gap-3">
+                <h3 className="p-24-semibold text-dark-100">Budget Breakdown</h3>
+                <p className="text-sm text-gray-500">
+                    {formatMoney(display(summary.total))} in total, about {formatMoney(display(summary.dailyAverage))} per day
+                </p>
+            </div>
+
+            {status && status !== 'within' && range && (
+                <p className="error !text-left">
+                    This itinerary {budgetWarnings[status]} {trip.budget} trip
+                    ({range.max === Infinity ? `over $${range.min}` : `$${range.min}-$${range.max}`} per person per day).
+                </p>
+            )}
+
+            <ul className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                {COST_CATEGORIES.map((category) => (
+                    <li key={category} className="flex flex-col gap-1 p-3 rounded-xl border border-light-400">
+                        <span className="flex items-center gap-2 text-sm text-gray-500">
+                            <span className="size-2.5 rounded-full" style={{ backgroundColor: categoryColors[category] }} />
+                            {COST_CATEGORY_LABELS[category]}
+                        </span>
+                        <span className="p-18-semibold text-dark-100">{formatMoney(display(summary.byCategory[category]))}</span>
+                    </li>
+                ))}
+            </ul>
+
+            <ChartComponent
+                id="cost-breakdown"
+                primaryXAxis={{ valueType: 'Category', majorGridLines: { width: 0 } }}
+                primaryYAxis={{ labelFormat: `${displayCurrency} {value}`, majorTickLines: { width: 0 }, lineStyle: { width: 0 } }}
+                tooltip={{ enable: true }}
+                legendSettings={{ visible: true }}
+            >
+                <Inject services={[StackingColumnSeries, Category, Legend, Tooltip]} />
+
+                <SeriesCollectionDirective>
+                    {COST_CATEGORIES.map((category) => (
+                        <SeriesDirective
+                            key={category}
+                            dataSource={chartData}
+                            xName="day"
+                            yName={category}
+                            type="StackingColumn"
+                            name={COST_CATEGORY_LABELS[category]}
+                            fill={categoryColors[category]}
+                            columnWidth={0.4}
+                        />
+                    ))}
+                </SeriesCollectionDirective>
+            </ChartComponent>
+        </section>
+    )
+}
+
+export default CostBreakdown
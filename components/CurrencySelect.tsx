@@ -0,0 +1,28 @@
+import { useFetcher, useRouteLoaderData } from "react-router";
+import type { loader as rootLoader } from "~/root";
+import { DEFAULT_CURRENCY, SUPPORTED_CURRENCIES } from "~/lib/money";
+import { cn } from "~/lib/utils";
+
+const CurrencySelect = ({ className }: { className?: string }) => {
+    const fetcher = useFetcher()
+    const root = useRouteLoaderData<typeof rootLoader>('root')
+    const currency = fetcher.formData?.get('currency')?.toString() ?? root?.currency ?? DEFAULT_CURRENCY
+
+    return (
+        <fetcher.Form method="post" action="/api/currency">
+            <select
+                name="currency"
+                aria-label="Currency"
+                value={currency}
+                onChange={(e) => fetcher.submit(e.currentTarget.form)}
+                className={cn('text-sm font-semibold bg-transparent cursor-pointer', className)}
+            >
+                {SUPPORTED_CURRENCIES.map((code) => (
+                    <option key={code} value={code}>{code}</option>
+                ))}
+            </select>
+        </fetcher.Form>
+    )
+}
+
+export default CurrencySelect
@@ -0,0 +1,82 @@
+import { useState } from "react";
+import { useSearchParams } from "react-router";
+import { COMPARISON_MODES, RANGE_PRESETS } from "~/lib/date-ranges";
+import { cn } from "~/lib/utils";
+
+interface Props {
+    range: DashboardRange;
+}
+
+// Every change is written to the URL, which re-runs the dashboard loader and
+// makes the selected view shareable.
+const DateRangePicker = ({ range }: Props) => {
+    const [searchParams, setSearchParams] = useSearchParams()
+    const [from, setFrom] = useState(range.from)
+    const [to, setTo] = useState(range.to)
+
+    const update = (changes: Record<string, string | null>) => {
+        const next = new URLSearchParams(searchParams)
+        Object.entries(changes).forEach(([key, value]) => value === null ? next.delete(key) : next.set(key, value))
+        setSearchParams(next, { preventScrollReset: true })
+    }
+
+    const selectPreset = (preset: RangePreset) => {
+        if (preset === 'custom') update({ range: preset, from, to })
+        else update({ range: preset, from: null, to: null })
+    }
+
+    return (
+        <section className="flex flex-wrap items-end gap-4">
+            <div className="flex flex-wrap gap-2">
+                {RANGE_PRESETS.map((preset) => (
+                    <button
+                        key={preset.value}
+                        type="button"
+                        onClick={() => selectPreset(preset.value)}
+                        className={cn('px-3 py-2 rounded-lg text-sm font-semibold border cursor-pointer', range.preset === preset.value
+                            ? 'bg-primary-100 text-white border-primary-100'
+                            : 'bg-white text-gray-500 border-light-400')}
+                    >
+                        {preset.label}
+                    </button>
+                ))}
+            </div>
+
+            {range.preset === 'custom' && (
+                <div className="flex items-end gap-2">
+                    <label className="flex flex-col gap-1 text-sm text-gray-500">
+                        From
+                        <input type="date" className="form-input !py-2" value={from} max={to} onChange={(e) => setFrom(e.target.value)} />
+                    </label>
+                    <label className="flex flex-col gap-1 text-sm text-gray-500">
+                        To
+                        <input type="date" className="form-input !py-2" value={to} min={from} onChange={(e) => setTo(e.target.value)} />
+                    </label>
+                    <button
+                        type="button"
+                        onClick={() => update({ from, to })}
+                        disabled={!from || !to || from > to}
+                        className="px-3 py-2 rounded-lg text-sm font-semibold text-primary-100 cursor-pointer disabled:opacity-50"
+                    >
+                        Apply
+                    </button>
+                </div>
+            )}
+
+            <label className="flex flex-col gap-1 text-sm text-gray-500">
+                Compare to
+                <select
+                    className="form-input !py-2"
+                    value={range.comparison}
+                    onChange={(e) => update({ compare: e.target.value === 'previous' ? null : e.target.value })}
+                >
+                    {COMPARISON_MODES.map((mode) => (
+                        <option key={mode.value} value={mode.value}>{mode.label}</option>
+                    ))}
+                </select>
+            </label>
+        </section>
+    )
+}
+
+export default DateRangePicker
@@ -0,0 +1,117 @@
+import { useState } from "react";
+import { getDuplicateUsers, mergeUsers } from "~/appwrite/auth";
+import { formatDate } from "~/lib/utils";
+import ConfirmDialog from "./ConfirmDialog";
+
+interface Props {
+    onMerged: () => void;
+}
+
+/**
+ * Scans the users collection for documents that belong to the same person and
+ * merges each group into its oldest document, moving their trips along.
+ */
+const DuplicateUsers = ({ onMerged }: Props) => {
+    const [groups, setGroups] = useState<DuplicateUserGroup[] | null>(null)
+    const [scanning, setScanning] = useState(false)
+    const [pending, setPending] = useState<DuplicateUserGroup | null>(null)
+    const [merging, setMerging] = useState(false)
+    const [error, setError] = useState<string | null>(null)
+
+    const scan = async () => {
+        setScanning(true)
+        setError(null)
+        try {
+            setGroups(await getDuplicateUsers())
+        } catch (e) {
+            console.error('Error finding duplicate users:', e)
+            setError(e instanceof Error ? e.message : 'Failed to look for duplicate users')
+        } finally {
+            setScanning(false)
+        }
+    }
+
+    const handleConfirm = async () => {
+        if (!pending) return
+        const [primary, ...duplicates] = pending.users
+        setMerging(true)
+        setError(null)
+
+        try {
+            await mergeUsers(primary.$id, duplicates.map((user) => user.$id))
+            setGroups((current) => current?.filter((group) => group !== pending) ?? null)
+            setPending(null)
+            onMerged()
+        } catch (e) {
+            console.error('Error merging users:', e)
+            setError(e instanceof Error ? e.message : 'Failed to merge users')
+        } finally {
+            setMerging(false)
+        }
+    }
+
+    return (
+        <section className="flex flex-col gap-4">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+                <div>
+                    <h2 className="p-20-semibold text-dark-100">Duplicate profiles</h2>
+                    <p className="text-sm text-gray-500">User documents sharing an account or an email address.</p>
+                </div>
+                <button
+                    type="button"
+                    onClick={scan}
+                    disabled={scanning}
+                    className="px-4 py-2.5 rounded-lg border border-light-400 text-sm font-semibold text-dark-100 cursor-pointer disabled:opacity-50"
+                >
+                    {scanning ? 'Scanning...' : groups ? 'Scan again' : 'Scan for duplicates'}
+                </button>
+            </div>
+
+            {error && !pending && <p className="error !text-left">{error}</p>}
+            {groups?.length === 0 && <p className="text-sm text-gray-500">No duplicate profiles found.</p>}
+
+            {groups?.map((group) => (
+                <article key={group.users[0].$id} className="flex flex-wrap items-center justify-between gap-4 p-4 rounded-20 bg-white shadow-400">
+                    <ul className="flex flex-col gap-2">
+                        {group.users.map((user, i) => (
+                            <li key={user.$id} className="flex items-center gap-2 text-sm text-dark-100">
+                                {user.imageUrl && (
+                                    <img src={user.imageUrl} alt="user" className="rounded-full size-6 aspect-square" referrerPolicy="no-referrer" />
+                                )}
+                                <span className="font-semibold">{user.name}</span>
+                                <span className="text-gray-500">{user.email} · joined {formatDate(user.joinedAt)} · {user.itineraryCount ?? 0} trips</span>
+                                {i === 0 && <span className="text-xs font-semibold text-primary-100">kept</span>}
+                            </li>
+                        ))}
+                    </ul>
+                    <button
+                        type="button"
+                        onClick={() => setPending(group)}
+                        className="text-sm font-semibold text-red-500 cursor-pointer"
+                    >
+                        Merge
+                    </button>
+                </article>
+            ))}
+
+            <ConfirmDialog
+                open={pending !== null}
+                title="Merge these profiles?"
+                description={pending
+                    ? `The other profiles and their trips will be merged into ${pending.users[0].name}'s, the oldest one. Their sign-ins will open that profile. This cannot be undone.`
+                    : ''}
+                confirmText="Merge"
+                destructive
+                loading={merging}
+                error={error}
+                onConfirm={handleConfirm}
+                onCancel={() => {
+                    setPending(null)
+                    setError(null)
+                }}
+            />
+        </section>
+    )
+}
+
+export default DuplicateUsers
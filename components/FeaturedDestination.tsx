@@ -0,0 +1,30 @@
+import { Link } from "react-router";
+import { cn } from "~/lib/utils";
+import Price from "./Price";
+
+const FeaturedDestination = ({ id, containerClass = '', bigCard = false, activityCount, price, bgImage, title }: DestinationProps) => (
+    <Link
+        to={`/travel/${id}`}
+        className={cn('rounded-[14px] overflow-hidden bg-cover bg-center size-full min-w-[280px]', containerClass)}
+        style={{ backgroundImage: `url(${bgImage})` }}
+    >
+        <div className="bg-linear200 h-full">
+            <article className="featured-card">
+                <div className="bg-white rounded-20 font-bold text-red-100 w-fit py-px px-3 text-sm">
+                    <Price money={price} />
+                </div>
+
+                <article className="flex flex-col gap-3.5">
+                    <h2 className={cn('text-lg font-semibold text-white', { 'p-30-bold': bigCard })}>{title}</h2>
+
+                    <figure className="flex gap-2 items-center">
+                        <img src="/assets/icons/itinerary.svg" alt="activities" className="size-4 invert" />
+                        <p className="text-xs font-normal text-white">{activityCount} activities</p>
+                    </figure>
+                </article>
+            </article>
+        </div>
+    </Link>
+);
+
+export default FeaturedDestination
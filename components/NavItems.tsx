@@ -2,6 +2,7 @@ import { Link, NavLink, useLoaderData, useNavigate } from "react-router"
 import { logoutUser } from "~/appwrite/auth";
 import { sidebarItems } from "~/constants"
 import { cn } from "~/lib/utils"
+import CurrencySelect from "./CurrencySelect";
 
 const NavItems = ({ handleClick } : {handleClick?:() => void }) => {
     const user = useLoaderData();
@@ -40,6 +41,10 @@ const NavItems = ({ handleClick } : {handleClick?:() => void }) => {
                     </div>
                 ))}
             </nav>
+            <div className="flex items-center justify-between px-4 text-sm text-gray-100">
+                Currency
+                <CurrencySelect className="text-dark-100" />
+            </div>
             <footer className="nav-footer">
                 <img src={user?.imageUrl || '/assets/images/david.webp'} alt={user?.name || 'Omar Fouad'}  referrerPolicy="no-referrer"/>
                 <article>
@@ -0,0 +1,20 @@
+import { useRouteLoaderData } from "react-router";
+import type { loader as rootLoader } from "~/root";
+import { convertMoney, formatMoney } from "~/lib/money";
+
+interface Props {
+    money?: Money | null;
+    /** Shown when the trip has no parsed price. */
+    fallback?: string;
+}
+
+// Prices stay in their own currency when no rate is available for the viewer's.
+const Price = ({ money, fallback = '' }: Props) => {
+    const root = useRouteLoaderData<typeof rootLoader>('root')
+    if (!money) return <>{fallback}</>
+
+    const converted = root?.exchangeRates ? convertMoney(money, root.currency, root.exchangeRates) : null
+    return <>{formatMoney(converted ?? money)}</>
+}
+
+export default Price
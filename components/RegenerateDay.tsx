@@ -0,0 +1,79 @@
+import { useState } from "react";
+import { ButtonComponent } from "@syncfusion/ej2-react-buttons";
+import { apiFetch } from "~/appwrite/auth";
+import { cn } from "~/lib/utils";
+
+interface Props {
+    tripId: string;
+    day: number;
+    onRegenerated: (dayPlan: DayPlan) => void;
+}
+
+const RegenerateDay = ({ tripId, day, onRegenerated }: Props) => {
+    const [open, setOpen] = useState(false)
+    const [instructions, setInstructions] = useState('')
+    const [loading, setLoading] = useState(false)
+    const [error, setError] = useState<string | null>(null)
+
+    const handleRegenerate = async () => {
+        setLoading(true)
+        setError(null)
+
+        try {
+            const response = await apiFetch(`/api/trips/${tripId}/regenerate-day`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ day, instructions }),
+            })
+            const result: { dayPlan?: DayPlan; error?: string } = await response.json()
+
+            if (!response.ok || !result.dayPlan) throw new Error(result.error ?? `Request failed: ${response.status}`)
+
+            onRegenerated(result.dayPlan)
+            setInstructions('')
+            setOpen(false)
+        } catch (e) {
+            console.error('Error regenerating day:', e)
+            setError(e instanceof Error ? e.message : 'Failed to regenerate this day')
+        } finally {
+            setLoading(false)
+        }
+    }
+
+    if (!open) {
+        return (
+            <button type="button" onClick={() => setOpen(true)} className="w-fit text-sm font-semibold text-primary-100 cursor-pointer">
+                Regenerate this day
+            </button>
+        )
+    }
+
+    return (
+        <div className="flex flex-col gap-3 p-4 bg-white border border-light-400 rounded-xl">
+            <label htmlFor={`instructions-${day}`} className="form-label">
+                Instructions for the new Day {day} (optional)
+            </label>
+            <textarea
+                id={`instructions-${day}`}
+                className="form-input"
+                rows={2}
+                placeholder="e.g. more museums, less walking"
+                value={instructions}
+                onChange={(e) => setInstructions(e.target.value)}
+                disabled={loading}
+            />
+            {error && <p className="error !text-left">{error}</p>}
+            <div className="flex gap-3">
+                <ButtonComponent type="button" className="button-class !h-10" onClick={handleRegenerate} disabled={loading}>
+                    <img src={`/assets/icons/${loading ? 'loader.svg' : 'magic-star.svg'}`} className={cn('size-4', { 'animate-spin': loading })} />
+                    <span className="p-16-semibold text-white">{loading ? 'Regenerating...' : 'Regenerate'}</span>
+                </ButtonComponent>
+                <ButtonComponent type="button" className="button-class-secondary !h-10" onClick={() => setOpen(false)} disabled={loading}>
+                    <span className="p-16-semibold">Cancel</span>
+                </ButtonComponent>
+            </div>
+        </div>
+    )
+}
+
+export default RegenerateDay
@@ -2,6 +2,7 @@ import React from 'react'
 import {Link, useLoaderData, useLocation, useNavigate, useParams} from "react-router";
 import {logoutUser} from "~/appwrite/auth";
 import {cn} from "~/lib/utils";
+import CurrencySelect from "./CurrencySelect";
 
 const RootNavbar = () => {
     const navigate = useNavigate();
@@ -23,21 +24,33 @@ const RootNavbar = () => {
                 </Link>
 
                 <aside>
-                    {user.status === 'admin' && (
+                    <CurrencySelect className={cn('text-white', {"!text-dark-100": location.pathname.startsWith('/travel')})} />
+
+                    {!user && (
+                        <Link to="/sign-in" className={cn('text-base font-semibold text-white', {"text-dark-100": location.pathname.startsWith('/travel')})}>
+                            Sign in
+                        </Link>
+                    )}
+
+                    {user?.status === 'admin' && !user.suspended && (
                         <Link to="/dashboard" className={cn('text-base font-normal text-white', {"text-dark-100": location.pathname.startsWith('/travel')})}>
                             Admin Panel
                         </Link>
                     )}
 
-                    <img src={user?.imageUrl || '/assets/images/david.wepb'} alt="user" referrerPolicy="no-referrer" />
+                    {user && (
+                        <>
+                            <img src={user.imageUrl || '/assets/images/david.webp'} alt="user" referrerPolicy="no-referrer" />
 
-                    <button onClick={handleLogout} className="cursor-pointer">
-                        <img
-                            src="/assets/icons/logout.svg"
-                            alt="logout"
-                            className="size-6 rotate-180"
-                        />
-                    </button>
+                            <button onClick={handleLogout} className="cursor-pointer">
+                                <img
+                                    src="/assets/icons/logout.svg"
+                                    alt="logout"
+                                    className="size-6 rotate-180"
+                                />
+                            </button>
+                        </>
+                    )}
                 </aside>
             </header>
         </nav>
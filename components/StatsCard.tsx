@@ -3,10 +3,11 @@ import { cn } from "~/lib/utils"
 const StatsCard = ({ 
   headerTitle, 
   total, 
-  currentMonthCount, 
-  lastMonthCount 
+  currentCount, 
+  previousCount,
+  comparisonLabel
 }: StatsCard) => {
-  const { trend, percentage} = calculateTrendPercentage(currentMonthCount, lastMonthCount)
+  const { trend, percentage} = calculateTrendPercentage(currentCount, previousCount)
   const isDecrement = trend === "decrement"
 
   return (
@@ -27,7 +28,7 @@ const StatsCard = ({
                 {Math.round(percentage)}%
               </figcaption>
             </figure>
-            <p className="text-sm font-medium text-gray-100 truncate">vs last month</p>
+            <p className="text-sm font-medium text-gray-100 truncate">{comparisonLabel}</p>
           </div>
         </div>
         <img src={`/assets/icons/${isDecrement ? 'decrement.svg' : 'increment.svg'}`} className="xl:w-32 w-full h-full md:h-32 xl:h-full" alt="trend graph" />
@@ -0,0 +1,158 @@
+import { useState } from "react";
+import { ButtonComponent } from "@syncfusion/ej2-react-buttons";
+import { ColumnDirective, ColumnsDirective, GridComponent } from "@syncfusion/ej2-react-grids";
+import { apiFetch } from "~/appwrite/auth";
+import { formatExactMoney } from "~/lib/money";
+import { cn, formatDate } from "~/lib/utils";
+
+interface Props {
+    tripId: string;
+    capacity: number | null;
+    bookings: Booking[];
+    onChanged: () => void;
+}
+
+const statusStyles: Record<BookingStatus, { bg: string; dot: string; text: string }> = {
+    pending: { bg: 'bg-yellow-50', dot: 'bg-yellow-500', text: 'text-yellow-700' },
+    paid: { bg: 'bg-success-50', dot: 'bg-success-500', text: 'text-success-700' },
+    cancelled: { bg: 'bg-light-300', dot: 'bg-gray-500', text: 'text-gray-500' },
+    refunded: { bg: 'bg-pink-50', dot: 'bg-pink-500', text: 'text-pink-500' },
+};
+
+const formatAmount = ({ amountTotal, currency }: Booking) =>
+    amountTotal ? formatExactMoney({ amount: amountTotal, currency: currency.toUpperCase() }) : '-';
+
+// Both changes go through admin-only API routes, which write with the server's API key.
+const postJson = async (url: string, body: object) => {
+    const response = await apiFetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+    })
+    const result: { error?: string } = await response.json()
+
+    if (!response.ok) throw new Error(result.error ?? `Request failed: ${response.status}`)
+    return result
+}
+
+const TripBookings = ({ tripId, capacity, bookings, onChanged }: Props) => {
+    const [capacityInput, setCapacityInput] = useState(capacity?.toString() ?? '')
+    const [saving, setSaving] = useState(false)
+    const [error, setError] = useState<string | null>(null)
+
+    const seatsTaken = bookings
+        .filter(({ status }) => status === 'pending' || status === 'paid')
+        .reduce((total, { seats }) => total + seats, 0)
+
+    const run = async (action: () => Promise<unknown>, failure: string) => {
+        setSaving(true)
+        setError(null)
+
+        try {
+            await action()
+            onChanged()
+        } catch (e) {
+            console.error(failure, e)
+            setError(e instanceof Error ? e.message : failure)
+        } finally {
+            setSaving(false)
+        }
+    }
+
+    const handleSaveCapacity = () => {
+        const value = capacityInput.trim() === '' ? null : Number(capacityInput)
+        if (value !== null && (!Number.isInteger(value) || value < 0)) {
+            setError('Capacity must be a whole number, or empty for unlimited')
+            return
+        }
+        void run(() => postJson(`/api/trips/${tripId}/capacity`, { capacity: value }), 'Failed to update capacity')
+    }
+
+    return (
+        <section className="flex flex-col gap-6">
+            <div className="flex flex-wrap items-end gap-4">
+                <div className="flex flex-col gap-1.5">
+                    <label htmlFor="trip-capacity" className="text-sm font-semibold text-gray-500">Capacity (seats)</label>
+                    <input
+                        id="trip-capacity"
+                        type="number"
+                        min={0}
+                        className="form-input w-40"
+                        placeholder="Unlimited"
+                        value={capacityInput}
+                        onChange={(e) => setCapacityInput(e.target.value)}
+                        disabled={saving}
+                    />
+                </div>
+                <ButtonComponent type="button" className="button-class !h-11" onClick={handleSaveCapacity} disabled={saving}>
+                    <span className="p-16-semibold text-white">Save capacity</span>
+                </ButtonComponent>
+                <p className="text-sm text-gray-500">
+                    {seatsTaken} {capacity === null ? 'seats booked' : `of ${capacity} seats booked`}
+                </p>
+            </div>
+
+            {error && <p className="error !text-left">{error}</p>}
+
+            {bookings.length === 0 ? (
+                <p className="text-sm text-gray-500">No bookings for this trip yet.</p>
+            ) : (
+                <GridComponent dataSource={bookings} gridLines="None">
+                    <ColumnsDirective>
+                        <ColumnDirective
+                            field="travelerNames"
+                            headerText="Travelers"
+                            width="220"
+                            textAlign="Left"
+                            template={({ travelerNames }: Booking) => travelerNames.join(', ') || '-'}
+                        />
+                        <ColumnDirective field="seats" headerText="Seats" width="80" textAlign="Left" />
+                        <ColumnDirective
+                            field="amountTotal"
+                            headerText="Paid"
+                            width="110"
+                            textAlign="Left"
+                            template={(booking: Booking) => formatAmount(booking)}
+                        />
+                        <ColumnDirective
+                            field="createdAt"
+                            headerText="Booked"
+                            width="130"
+                            textAlign="Left"
+                            template={({ createdAt }: Booking) => formatDate(createdAt)}
+                        />
+                        <ColumnDirective
+                            field="status"
+                            headerText="Status"
+                            width="110"
+                            textAlign="Left"
+                            template={({ status }: Booking) => (
+                                <article className={cn('status-column', statusStyles[status].bg)}>
+                                    <div className={cn('size-1.5 rounded-full', statusStyles[status].dot)} />
+                                    <h3 className={cn('font-inter text-xs font-medium', statusStyles[status].text)}>{status}</h3>
+                                </article>
+                            )}
+                        />
+                        <ColumnDirective
+                            headerText=""
+                            width="100"
+                            textAlign="Left"
+                            template={({ id, status }: Booking) => status === 'pending' && (
+                                <button
+                                    type="button"
+                                    onClick={() => run(() => postJson(`/api/bookings/${id}/cancel`, {}), 'Failed to cancel booking')}
+                                    className="text-sm font-semibold text-red-500 cursor-pointer"
+                                    disabled={saving}
+                                >
+                                    Cancel
+                                </button>
+                            )}
+                        />
+                    </ColumnsDirective>
+                </GridComponent>
+            )}
+        </section>
+    )
+}
+
+export default TripBookings
@@ -1,6 +1,7 @@
 import { Link, useLocation } from "react-router"
 import { getFirstWord, cn } from "~/lib/utils"
 import { ChipListComponent, ChipsDirective, ChipDirective } from '@syncfusion/ej2-react-buttons';
+import Price from "./Price"
 const TripCard = ({ id, name, imageUrl, location, tags, price } : TripCardProps) => {
   
   const path = useLocation()
@@ -27,7 +28,7 @@ const TripCard = ({ id, name, imageUrl, location, tags, price } : TripCardProps)
         </ChipListComponent>
       </div>
       <article className="tripCard-pill">
-        {price}
+        <Price money={price} />
       </article>
       
     </Link>
@@ -0,0 +1,280 @@
+import { useEffect, useState } from "react";
+import { ButtonComponent } from "@syncfusion/ej2-react-buttons";
+import { apiFetch } from "~/appwrite/auth";
+import { COST_CATEGORIES, COST_CATEGORY_LABELS } from "~/lib/trip-costs";
+import { cn } from "~/lib/utils";
+
+interface Props {
+    tripId: string;
+    trip: GeneratedTrip;
+    onSaved: () => void;
+    onCancel: () => void;
+    onDirtyChange: (dirty: boolean) => void;
+}
+
+const move = <T,>(items: T[], from: number, to: number) => {
+    if (to < 0 || to >= items.length) return items;
+    const next = [...items];
+    const [item] = next.splice(from, 1);
+    next.splice(to, 0, item);
+    return next;
+};
+
+// Day numbers and duration always follow the order of the itinerary.
+const renumber = (itinerary: DayPlan[]) => itinerary.map((dayPlan, i) => ({ ...dayPlan, day: i + 1 }));
+
+const IconButton = ({ label, onClick, disabled }: { label: string; onClick: () => void; disabled?: boolean }) => (
+    <button
+        type="button"
+        onClick={onClick}
+        disabled={disabled}
+        className="px-2 py-1 text-xs font-semibold text-gray-500 border border-light-400 rounded-md cursor-pointer disabled:opacity-40"
+    >
+        {label}
+    </button>
+);
+
+const StringListEditor = ({ title, items, onChange }: { title: string; items: string[]; onChange: (items: string[]) => void }) => (
+    <div className="flex flex-col gap-2.5">
+        <h3 className="p-16-semibold text-dark-400">{title}</h3>
+        {items.map((item, i) => (
+            <div key={i} className="flex gap-2 items-center">
+                <input
+                    className="form-input flex-1"
+                    value={item}
+                    onChange={(e) => onChange(items.map((existing, j) => j === i ? e.target.value : existing))}
+                />
+                <IconButton label="Remove" onClick={() => onChange(items.filter((_, j) => j !== i))} />
+            </div>
+        ))}
+        <IconButton label={`Add ${title.toLowerCase()} entry`} onClick={() => onChange([...items, ''])} />
+    </div>
+);
+
+const CategorySelect = ({ value, onChange, emptyLabel }: { value?: CostCategory; onChange: (category?: CostCategory) => void; emptyLabel?: string }) => (
+    <select
+        className="form-input !w-36"
+        value={value ?? ''}
+        onChange={(e) => onChange((e.target.value || undefined) as CostCategory | undefined)}
+    >
+        {emptyLabel && <option value="">{emptyLabel}</option>}
+        {COST_CATEGORIES.map((category) => (
+            <option key={category} value={category}>{COST_CATEGORY_LABELS[category]}</option>
+        ))}
+    </select>
+);
+
+const AmountInput = ({ value, onChange, disabled }: { value?: number; onChange: (amount: number) => void; disabled?: boolean }) => (
+    <input
+        type="number"
+        min={0}
+        className="form-input !w-28"
+        placeholder="Cost"
+        value={value ?? ''}
+        disabled={disabled}
+        onChange={(e) => onChange(Math.max(Number(e.target.value), 0))}
+    />
+);
+
+// Day-level costs such as lodging and transfers, next to the per-activity ones.
+const CostListEditor = ({ costs, onChange }: { costs: CostEstimate[]; onChange: (costs: CostEstimate[]) => void }) => (
+    <div className="!px-0 flex flex-col gap-2">
+        <span className="text-sm font-semibold text-gray-500">Day costs</span>
+        {costs.map((cost, i) => (
+            <div key={i} className="!flex-row !px-0 items-center">
+                <CategorySelect
+                    value={cost.category}
+                    onChange={(category) => onChange(costs.map((existing, j) => j === i ? { ...existing, category: category ?? existing.category } : existing))}
+                />
+                <AmountInput value={cost.amount} onChange={(amount) => onChange(costs.map((existing, j) => j === i ? { ...existing, amount } : existing))} />
+                <IconButton label="Remove" onClick={() => onChange(costs.filter((_, j) => j !== i))} />
+            </div>
+        ))}
+        <IconButton label="Add day cost" onClick={() => onChange([...costs, { category: 'lodging', amount: 0 }])} />
+    </div>
+);
+
+const TripEditor = ({ tripId, trip, onSaved, onCancel, onDirtyChange }: Props) => {
+    const [draft, setDraft] = useState<GeneratedTrip>(trip)
+    const [issues, setIssues] = useState<ValidationIssue[]>([])
+    const [saving, setSaving] = useState(false)
+    const [error, setError] = useState<string | null>(null)
+
+    const dirty = JSON.stringify(draft) !== JSON.stringify(trip)
+    useEffect(() => onDirtyChange(dirty), [dirty])
+
+    const update = (patch: Partial<GeneratedTrip>) => setDraft((current) => ({ ...current, ...patch }))
+
+    const updateItinerary = (itinerary: DayPlan[]) => {
+        const numbered = renumber(itinerary)
+        update({ itinerary: numbered, duration: numbered.length })
+    }
+
+    const updateDay = (index: number, patch: Partial<DayPlan>) =>
+        updateItinerary(draft.itinerary.map((dayPlan, i) => i === index ? { ...dayPlan, ...patch } : dayPlan))
+
+    const updateActivities = (dayIndex: number, activities: Activity[]) => updateDay(dayIndex, { activities })
+
+    // A moved day drops its coordinates and is located again when the trip is next shown.
+    const relocateDay = (dayIndex: number, location: string) => updateDay(dayIndex, {
+        location,
+        coordinates: undefined,
+        activities: draft.itinerary[dayIndex].activities.map(({ coordinates: _, ...activity }) => activity),
+    })
+
+    const updateActivityCost = (dayIndex: number, activityIndex: number, cost?: CostEstimate) =>
+        updateActivities(dayIndex, draft.itinerary[dayIndex].activities.map((activity, i) => {
+            if (i !== activityIndex) return activity
+            const { cost: _, ...rest } = activity
+            return cost ? { ...rest, cost } : rest
+        }))
+
+    const handleSave = async () => {
+        setSaving(true)
+        setError(null)
+
+        try {
+            const response = await apiFetch(`/api/trips/${tripId}/edit`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ trip: draft }),
+            })
+            const result: { saved?: boolean; issues?: ValidationIssue[]; error?: string } = await response.json()
+
+            setIssues(result.issues ?? [])
+            if (result.saved) {
+                onDirtyChange(false)
+                onSaved()
+            } else if (!result.issues?.length) {
+                throw new Error(result.error ?? `Request failed: ${response.status}`)
+            }
+        } catch (e) {
+            console.error('Error saving trip:', e)
+            setError(e instanceof Error ? e.message : 'Failed to save trip')
+        } finally {
+            setSaving(false)
+        }
+    }
+
+    return (
+        <section className="trip-form !px-0">
+            <div>
+                <label htmlFor="trip-name">Trip name</label>
+                <input id="trip-name" className="form-input" value={draft.name} onChange={(e) => update({ name: e.target.value })} />
+            </div>
+
+            <div>
+                <label htmlFor="trip-description">Description</label>
+                <textarea
+                    id="trip-description"
+                    className="form-input"
+                    rows={4}
+                    value={draft.description}
+                    onChange={(e) => update({ description: e.target.value })}
+                />
+            </div>
+
+            <div>
+                <label htmlFor="trip-price">Estimated price</label>
+                <input id="trip-price" className="form-input" value={draft.estimatedPrice} onChange={(e) => update({ estimatedPrice: e.target.value })} />
+            </div>
+
+            <div>
+                <h3 className="p-16-semibold text-dark-400">Itinerary ({draft.itinerary.length} days)</h3>
+                {draft.itinerary.map((dayPlan, dayIndex) => (
+                    <div key={dayIndex} className="!px-4 py-4 border border-light-400 rounded-xl">
+                        <div className="!flex-row !px-0 items-center justify-between">
+                            <span className="p-16-semibold text-dark-100">Day {dayPlan.day}</span>
+                            <div className="!flex-row !px-0 !w-fit">
+                                <IconButton label="Up" onClick={() => updateItinerary(move(draft.itinerary, dayIndex, dayIndex - 1))} disabled={dayIndex === 0} />
+                                <IconButton label="Down" onClick={() => updateItinerary(move(draft.itinerary, dayIndex, dayIndex + 1))} disabled={dayIndex === draft.itinerary.length - 1} />
+                                <IconButton label="Remove day" onClick={() => updateItinerary(draft.itinerary.filter((_, i) => i !== dayIndex))} />
+                            </div>
+                        </div>
+
+                        <input
+                            className="form-input"
+                            placeholder="Location"
+                            value={dayPlan.location}
+                            onChange={(e) => relocateDay(dayIndex, e.target.value)}
+                        />
+
+                        {dayPlan.activities.map((activity, activityIndex) => (
+                            <div key={activityIndex} className="!flex-row !px-0 items-center">
+                                <input
+                                    className="form-input w-28"
+                                    placeholder="Time"
+                                    value={activity.time}
+                                    onChange={(e) => updateActivities(dayIndex, dayPlan.activities.map((existing, i) =>
+                                        i === activityIndex ? { ...existing, time: e.target.value } : existing))}
+                                />
+                                <input
+                                    className="form-input flex-1"
+                                    placeholder="Description"
+                                    value={activity.description}
+                                    onChange={(e) => updateActivities(dayIndex, dayPlan.activities.map((existing, i) =>
+                                        i === activityIndex ? { ...existing, description: e.target.value } : existing))}
+                                />
+                                <CategorySelect
+                                    value={activity.cost?.category}
+                                    emptyLabel="No cost"
+                                    onChange={(category) => updateActivityCost(dayIndex, activityIndex,
+                                        category ? { category, amount: activity.cost?.amount ?? 0 } : undefined)}
+                                />
+                                <AmountInput
+                                    value={activity.cost?.amount}
+                                    disabled={!activity.cost}
+                                    onChange={(amount) => activity.cost && updateActivityCost(dayIndex, activityIndex, { ...activity.cost, amount })}
+                                />
+                                <IconButton label="Up" onClick={() => updateActivities(dayIndex, move(dayPlan.activities, activityIndex, activityIndex - 1))} disabled={activityIndex === 0} />
+                                <IconButton label="Down" onClick={() => updateActivities(dayIndex, move(dayPlan.activities, activityIndex, activityIndex + 1))} disabled={activityIndex === dayPlan.activities.length - 1} />
+                                <IconButton label="Remove" onClick={() => updateActivities(dayIndex, dayPlan.activities.filter((_, i) => i !== activityIndex))} />
+                            </div>
+                        ))}
+
+                        <IconButton label="Add activity" onClick={() => updateActivities(dayIndex, [...dayPlan.activities, { time: '', description: '' }])} />
+
+                        <CostListEditor costs={dayPlan.costs ?? []} onChange={(costs) => updateDay(dayIndex, { costs })} />
+                    </div>
+                ))}
+                <IconButton
+                    label="Add day"
+                    onClick={() => updateItinerary([...draft.itinerary, { day: draft.itinerary.length + 1, location: '', activities: [{ time: 'Morning', description: '' }] }])}
+                />
+            </div>
+
+            <div>
+                <StringListEditor title="Best time to visit" items={draft.bestTimeToVisit} onChange={(bestTimeToVisit) => update({ bestTimeToVisit })} />
+            </div>
+
+            <div>
+                <StringListEditor title="Weather" items={draft.weatherInfo} onChange={(weatherInfo) => update({ weatherInfo })} />
+            </div>
+
+            {(issues.length > 0 || error) && (
+                <div className="error !text-left">
+                    {error && <p>{error}</p>}
+                    {issues.length > 0 && (
+                        <ul className="list-disc pl-5">
+                            {issues.map((issue) => (
+                                <li key={issue.path + issue.message}>{issue.path || 'trip'}: {issue.message}</li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            )}
+
+            <footer className="px-6 w-full flex gap-3">
+                <ButtonComponent type="button" className="button-class !h-12 !w-full" onClick={handleSave} disabled={saving || !dirty}>
+                    <img src={`/assets/icons/${saving ? 'loader.svg' : 'check.svg'}`} className={cn('size-5', { 'animate-spin': saving })} />
+                    <span className="p-16-semibold text-white">{saving ? 'Saving...' : 'Save changes'}</span>
+                </ButtonComponent>
+                <ButtonComponent type="button" className="button-class-secondary !h-12 !w-full" onClick={onCancel} disabled={saving}>
+                    <span className="p-16-semibold">Discard</span>
+                </ButtonComponent>
+            </footer>
+        </section>
+    )
+}
+
+export default TripEditor
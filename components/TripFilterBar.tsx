@@ -0,0 +1,71 @@
+import { Form, useSearchParams } from "react-router";
+import { budgetOptions, groupTypes, interests, travelStyles } from "~/constants";
+
+const selects = [
+    { name: 'travelStyle', label: 'Travel style', options: travelStyles },
+    { name: 'interest', label: 'Interest', options: interests },
+    { name: 'budget', label: 'Budget', options: budgetOptions },
+    { name: 'groupType', label: 'Group type', options: groupTypes },
+];
+
+const sortOptions = [
+    { value: 'createdAt:desc', label: 'Newest first' },
+    { value: 'createdAt:asc', label: 'Oldest first' },
+    { value: 'price:asc', label: 'Price: low to high' },
+    { value: 'price:desc', label: 'Price: high to low' },
+];
+
+// A GET form, so filters live in the URL and submitting starts again from page 1.
+const TripFilterBar = () => {
+    const [searchParams] = useSearchParams()
+    const value = (name: string) => searchParams.get(name) ?? ''
+
+    return (
+        <Form method="get" key={searchParams.toString()} className="flex flex-wrap items-end gap-4 mb-6">
+            {searchParams.has('userId') && <input type="hidden" name="userId" value={value('userId')} />}
+
+            <label className="flex flex-col gap-1 text-sm text-gray-500 flex-1 min-w-[220px]">
+                Search
+                <input name="q" type="search" className="form-input !py-2" placeholder="Trip name or country" defaultValue={value('q')} />
+            </label>
+
+            {selects.map(({ name, label, options }) => (
+                <label key={name} className="flex flex-col gap-1 text-sm text-gray-500">
+                    {label}
+                    <select name={name} className="form-input !py-2" defaultValue={value(name)}>
+                        <option value="">All</option>
+                        {options.map((option) => (
+                            <option key={option} value={option}>{option}</option>
+                        ))}
+                    </select>
+                </label>
+            ))}
+
+            <fieldset className="flex items-end gap-2">
+                <label className="flex flex-col gap-1 text-sm text-gray-500">
+                    Min days
+                    <input name="minDays" type="number" min={1} className="form-input !py-2 w-24" defaultValue={value('minDays')} />
+                </label>
+                <label className="flex flex-col gap-1 text-sm text-gray-500">
+                    Max days
+                    <input name="maxDays" type="number" min={1} className="form-input !py-2 w-24" defaultValue={value('maxDays')} />
+                </label>
+            </fieldset>
+
+            <label className="flex flex-col gap-1 text-sm text-gray-500">
+                Sort by
+                <select name="sort" className="form-input !py-2" defaultValue={value('sort') || 'createdAt:desc'}>
+                    {sortOptions.map(({ value, label }) => (
+                        <option key={value} value={value}>{label}</option>
+                    ))}
+                </select>
+            </label>
+
+            <button type="submit" className="px-4 py-2.5 rounded-lg bg-primary-100 text-white text-sm font-semibold cursor-pointer">
+                Apply
+            </button>
+        </Form>
+    )
+}
+
+export default TripFilterBar
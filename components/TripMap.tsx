@@ -0,0 +1,131 @@
+import { useState } from "react";
+import {
+    Inject,
+    LayerDirective,
+    LayersDirective,
+    MapsComponent,
+    MapsTooltip,
+    Marker,
+    MarkerDirective,
+    MarkersDirective,
+    NavigationLine,
+    NavigationLineDirective,
+    NavigationLinesDirective,
+    Zoom
+} from "@syncfusion/ej2-react-maps";
+import { world_map } from "~/constants/world_map";
+import { cn } from "~/lib/utils";
+
+interface Props {
+    trip: GeneratedTrip;
+}
+
+const toPoint = ([latitude, longitude]: [number, number]) => ({ latitude, longitude });
+
+// Syncfusion fills `${day}` from each marker's data.
+const dayMarkerTemplate =
+    '<div class="flex items-center justify-center size-7 rounded-full border-2 border-white bg-primary-100 text-xs font-semibold text-white shadow">${day}</div>';
+
+/**
+ * The itinerary on the bundled world shapes: a numbered marker per day joined
+ * by the route, and the activities of the day picked in the selector. The map
+ * is remounted for each selection so it zooms to fit the markers shown.
+ */
+const TripMap = ({ trip }: Props) => {
+    const [selectedDay, setSelectedDay] = useState<number | null>(null)
+
+    const stops = (trip.itinerary ?? []).flatMap((dayPlan) => dayPlan.coordinates
+        ? [{ day: dayPlan.day, label: `Day ${dayPlan.day}: ${dayPlan.location}`, ...toPoint(dayPlan.coordinates) }]
+        : [])
+    if (stops.length === 0) return null
+
+    const selected = trip.itinerary.find((dayPlan) => dayPlan.day === selectedDay && dayPlan.coordinates)
+    const dayMarkers = selected ? stops.filter((stop) => stop.day === selected.day) : stops
+    // Activities placed at the day's own coordinates would sit under its marker.
+    const activityMarkers = selected?.activities.flatMap((activity) =>
+        activity.coordinates && activity.coordinates.join() !== selected.coordinates!.join()
+            ? [{ label: `${activity.time}: ${activity.description}`, ...toPoint(activity.coordinates) }]
+            : []) ?? []
+    const legs = stops.slice(1).map((stop, i) => ({ from: stops[i], to: stop }))
+
+    return (
+        <section className="flex flex-col gap-5">
+            <div className="flex flex-wrap items-end justify-between gap-3">
+                <h3 className="p-24-semibold text-dark-100">Route</h3>
+                {trip.location?.openStreetMap && (
+                    <a href={trip.location.openStreetMap} target="_blank" rel="noreferrer" className="text-sm font-semibold text-primary-100">
+                        Open in OpenStreetMap
+                    </a>
+                )}
+            </div>
+
+            <nav className="flex flex-wrap gap-2">
+                {[{ day: null, label: 'All days' }, ...stops.map((stop) => ({ day: stop.day, label: `Day ${stop.day}` }))].map((option) => (
+                    <button
+                        key={option.label}
+                        type="button"
+                        onClick={() => setSelectedDay(option.day)}
+                        className={cn('px-3 py-1.5 rounded-full border text-sm font-semibold cursor-pointer', selectedDay === option.day
+                            ? 'bg-primary-100 border-primary-100 text-white'
+                            : 'border-light-400 text-gray-500')}
+                    >
+                        {option.label}
+                    </button>
+                ))}
+            </nav>
+
+            <MapsComponent
+                key={selectedDay ?? 'all'}
+                id="trip-map"
+                height="420px"
+                zoomSettings={{ enable: true, shouldZoomInitially: true, maxZoom: 30, toolbarSettings: { horizontalAlignment: 'Far' } }}
+                markerClick={(args) => {
+                    const { day } = args.data as { day?: number }
+                    if (day) setSelectedDay(day)
+                }}
+            >
+                <Inject services={[Marker, NavigationLine, Zoom, MapsTooltip]} />
+
+                <LayersDirective>
+                    <LayerDirective shapeData={world_map} shapeSettings={{ fill: '#E5E5E5', border: { color: '#FFFFFF', width: 0.5 } }}>
+                        <MarkersDirective>
+                            <MarkerDirective
+                                visible
+                                dataSource={dayMarkers}
+                                template={dayMarkerTemplate}
+                                tooltipSettings={{ visible: true, valuePath: 'label' }}
+                            />
+                            <MarkerDirective
+                                visible={activityMarkers.length > 0}
+                                dataSource={activityMarkers}
+                                shape="Circle"
+                                fill="#F79009"
+                                width={10}
+                                height={10}
+                                border={{ color: '#FFFFFF', width: 2 }}
+                                tooltipSettings={{ visible: true, valuePath: 'label' }}
+                            />
+                        </MarkersDirective>
+
+                        <NavigationLinesDirective>
+                            {legs.map(({ from, to }) => (
+                                <NavigationLineDirective
+                                    key={to.day}
+                                    visible
+                                    latitude={[from.latitude, to.latitude]}
+                                    longitude={[from.longitude, to.longitude]}
+                                    color={selected && [from.day, to.day].includes(selected.day) ? '#256FF1' : '#7F7E83'}
+                                    width={2}
+                                    dashArray="4"
+                                    angle={0.1}
+                                />
+                            ))}
+                        </NavigationLinesDirective>
+                    </LayerDirective>
+                </LayersDirective>
+            </MapsComponent>
+        </section>
+    )
+}
+
+export default TripMap
@@ -0,0 +1,164 @@
+import { useMemo, useState } from "react";
+import { ButtonComponent } from "@syncfusion/ej2-react-buttons";
+import { apiFetch } from "~/appwrite/auth";
+import { diffTrips } from "~/lib/trip-diff";
+import { cn, formatDate, parseTripData } from "~/lib/utils";
+
+interface Props {
+    tripId: string;
+    revisions: TripRevision[];
+    onRolledBack: () => void;
+}
+
+const changeStyles: Record<ListChange['type'], string> = {
+    same: 'text-gray-500',
+    added: 'bg-success-50 text-success-700',
+    removed: 'bg-red-50 text-red-500 line-through',
+};
+
+const RevisionSelect = ({ id, label, value, revisions, onChange }: {
+    id: string;
+    label: string;
+    value: string;
+    revisions: TripRevision[];
+    onChange: (id: string) => void;
+}) => (
+    <div className="flex flex-col gap-1.5 flex-1">
+        <label htmlFor={id} className="text-sm font-semibold text-gray-500">{label}</label>
+        <select id={id} className="form-input" value={value} onChange={(e) => onChange(e.target.value)}>
+            {revisions.map((revision) => (
+                <option key={revision.id} value={revision.id}>
+                    {new Date(revision.createdAt).toLocaleString()} - {revision.summary}
+                </option>
+            ))}
+        </select>
+    </div>
+);
+
+const TripRevisions = ({ tripId, revisions, onRolledBack }: Props) => {
+    const [fromId, setFromId] = useState(revisions[1]?.id ?? revisions[0]?.id ?? '')
+    const [toId, setToId] = useState(revisions[0]?.id ?? '')
+    const [rollingBack, setRollingBack] = useState<string | null>(null)
+    const [error, setError] = useState<string | null>(null)
+
+    const diff = useMemo(() => {
+        const from = revisions.find((revision) => revision.id === fromId)
+        const to = revisions.find((revision) => revision.id === toId)
+        if (!from || !to) return null
+        return diffTrips(parseTripData(from.tripDetails) ?? {}, parseTripData(to.tripDetails) ?? {})
+    }, [revisions, fromId, toId])
+
+    const handleRollback = async (revision: TripRevision) => {
+        if (!window.confirm(`Restore the version "${revision.summary}"? The current version stays in the history.`)) return
+
+        setRollingBack(revision.id)
+        setError(null)
+
+        try {
+            const response = await apiFetch(`/api/trips/${tripId}/rollback`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ revisionId: revision.id }),
+            })
+            const result: { error?: string } = await response.json()
+
+            if (!response.ok) throw new Error(result.error ?? `Request failed: ${response.status}`)
+            onRolledBack()
+        } catch (e) {
+            console.error('Error rolling back trip:', e)
+            setError(e instanceof Error ? e.message : 'Failed to roll back trip')
+        } finally {
+            setRollingBack(null)
+        }
+    }
+
+    if (revisions.length === 0) {
+        return <p className="text-sm text-gray-500">No revisions recorded for this trip yet.</p>
+    }
+
+    return (
+        <section className="flex flex-col gap-6">
+            <ol className="flex flex-col gap-3 border-l-2 border-light-400 pl-5">
+                {revisions.map((revision, index) => (
+                    <li key={revision.id} className="flex flex-wrap items-center justify-between gap-3">
+                        <div className="flex flex-col gap-1">
+                            <div className="flex items-center gap-2">
+                                <span className={cn('px-2 py-0.5 rounded-full text-xs font-semibold',
+                                    revision.source === 'ai' ? 'bg-pink-50 text-pink-500' : 'bg-navy-50 text-navy-500')}>
+                                    {revision.source === 'ai' ? 'AI' : 'Manual'}
+                                </span>
+                                <p className="p-16-semibold text-dark-100">{revision.summary}</p>
+                                {index === 0 && <span className="text-xs font-semibold text-primary-100">Current</span>}
+                            </div>
+                            <p className="text-sm text-gray-500">
+                                {revision.authorName ?? revision.authorId} · {formatDate(revision.createdAt)} {new Date(revision.createdAt).toLocaleTimeString()}
+                            </p>
+                        </div>
+
+                        <div className="flex gap-3">
+                            <button type="button" onClick={() => setFromId(revision.id)} className="text-sm font-semibold text-primary-100 cursor-pointer">
+                                Compare
+                            </button>
+                            {index > 0 && (
+                                <ButtonComponent
+                                    type="button"
+                                    className="button-class-secondary !h-9"
+                                    onClick={() => handleRollback(revision)}
+                                    disabled={rollingBack !== null}
+                                >
+                                    <span className="text-sm font-semibold">{rollingBack === revision.id ? 'Restoring...' : 'Roll back'}</span>
+                                </ButtonComponent>
+                            )}
+                        </div>
+                    </li>
+                ))}
+            </ol>
+
+            {error && <p className="error !text-left">{error}</p>}
+
+            <div className="flex flex-col md:flex-row gap-3">
+                <RevisionSelect id="revision-from" label="From" value={fromId} revisions={revisions} onChange={setFromId} />
+                <RevisionSelect id="revision-to" label="To" value={toId} revisions={revisions} onChange={setToId} />
+            </div>
+
+            {diff && (
+                <div className="flex flex-col gap-4">
+                    {diff.fields.length === 0 && diff.days.every((day) => day.status === 'unchanged') && (
+                        <p className="text-sm text-gray-500">These revisions are identical.</p>
+                    )}
+
+                    {diff.fields.map((change) => (
+                        <div key={change.field} className="text-sm">
+                            <p className="font-semibold text-dark-100">{change.field}</p>
+                            <p className={changeStyles.removed}>{change.before || '(empty)'}</p>
+                            <p className={changeStyles.added}>{change.after || '(empty)'}</p>
+                        </div>
+                    ))}
+
+                    {diff.days.filter((day) => day.status !== 'unchanged').map((day) => (
+                        <div key={day.day} className="flex flex-col gap-1 text-sm">
+                            <p className="font-semibold text-dark-100">
+                                Day {day.day} <span className="font-normal text-gray-500">({day.status})</span>
+                            </p>
+                            {day.location && (
+                                <p>
+                                    {day.location.before && <span className={cn('px-1', changeStyles.removed)}>{day.location.before}</span>}
+                                    {day.location.after && <span className={cn('px-1', changeStyles.added)}>{day.location.after}</span>}
+                                </p>
+                            )}
+                            <ul>
+                                {day.activities.map((change, i) => (
+                                    <li key={i} className={cn('px-1', changeStyles[change.type])}>
+                                        {change.type === 'added' ? '+ ' : change.type === 'removed' ? '- ' : '  '}{change.value}
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </section>
+    )
+}
+
+export default TripRevisions
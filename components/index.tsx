@@ -3,4 +3,19 @@ export { default as MobileSidebar } from './MobileSidebar'
 export { default as Header } from './Header'
 export { default as StatsCard } from './StatsCard'
 export { default as TripCard } from './TripCard'
-export { default as InfoPill } from './InfoPill'
\ No newline at end of file
+export { default as InfoPill } from './InfoPill'
+export { default as RegenerateDay } from './RegenerateDay'
+export { default as TripEditor } from './TripEditor'
+export { default as TripRevisions } from './TripRevisions'
+export { default as BookTrip } from './BookTrip'
+export { default as TripBookings } from './TripBookings'
+export { default as FeaturedDestination } from './FeaturedDestination'
+export { default as RootNavbar } from './RootNavbar'
+export { default as DateRangePicker } from './DateRangePicker'
+export { default as ConfirmDialog } from './ConfirmDialog'
+export { default as TripFilterBar } from './TripFilterBar'
+export { default as Price } from './Price'
+export { default as CurrencySelect } from './CurrencySelect'
+export { default as CostBreakdown } from './CostBreakdown'
+export { default as TripMap } from './TripMap'
+export { default as DuplicateUsers } from './DuplicateUsers'
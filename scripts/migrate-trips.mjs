@@ -0,0 +1,33 @@
+// Backfills the normalized trip attributes from legacy `tripDetails` JSON.
+//
+//   npm run migrate:trips              migrate, reading .env.local
+//   npm run migrate:trips -- --dry-run report what would change
+//
+// The migration lives in app/lib/trip-migration.ts; Vite loads it so the
+// script shares the app's TypeScript and `~/` imports.
+import { createServer } from "vite";
+import tsconfigPaths from "vite-tsconfig-paths";
+
+const dryRun = process.argv.includes("--dry-run");
+
+const vite = await createServer({
+    configFile: false,
+    plugins: [tsconfigPaths()],
+    server: { middlewareMode: true, hmr: false },
+    appType: "custom",
+    logLevel: "error",
+});
+
+try {
+    const { migrateTrips } = await vite.ssrLoadModule("/app/lib/trip-migration.ts");
+    const report = await migrateTrips({
+        dryRun,
+        onProgress: ({ scanned, migrated }) => console.log(`Scanned ${scanned} trips, ${dryRun ? "would migrate" : "migrated"} ${migrated}`),
+    });
+
+    console.log(`\n${dryRun ? "Dry run: " : ""}${report.migrated} migrated, ${report.alreadyMigrated} already migrated, ${report.failed.length} failed`);
+    for (const { id, reason } of report.failed) console.log(`  ${id}: ${reason}`);
+    process.exitCode = report.failed.length > 0 ? 1 : 0;
+} finally {
+    await vite.close();
+}
@@ -0,0 +1,29 @@
+// Lowercases stored emails and adds the unique indexes on the users
+// collection's `accountId` and `email`.
+//
+//   npm run setup:user-indexes         reading .env.local
+//
+// Appwrite rejects a unique index while duplicate profiles exist: merge them
+// first from the "Duplicate profiles" section of the user list.
+import { createServer } from "vite";
+import tsconfigPaths from "vite-tsconfig-paths";
+
+const vite = await createServer({
+    configFile: false,
+    plugins: [tsconfigPaths()],
+    server: { middlewareMode: true, hmr: false },
+    appType: "custom",
+    logLevel: "error",
+});
+
+try {
+    const { ensureUserIndexes } = await vite.ssrLoadModule("/app/lib/user-accounts.ts");
+    const { normalizedEmails, created } = await ensureUserIndexes();
+    if (normalizedEmails > 0) console.log(`Lowercased the email of ${normalizedEmails} profiles`);
+    console.log(created.length > 0 ? `Created ${created.join(", ")}` : "The user indexes already exist");
+} catch (e) {
+    console.error("Failed to create the user indexes:", e instanceof Error ? e.message : e);
+    process.exitCode = 1;
+} finally {
+    await vite.close();
+}